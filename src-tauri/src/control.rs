@@ -0,0 +1,543 @@
+// Line-based control protocol for macro pads, foot pedals and scripts: one command
+// per line, over a socket on 127.0.0.1 (opt-in from Settings, src/control.ts) or
+// over stdin when the app is started with a pipe. Every line gets one reply line:
+//
+//   OK <id>       a Student View command, applied and acked by the main Student View
+//   OK            PING, AUTH, or TITLE / SUB / SCENE handed to the main window
+//   OK <text>     HELP
+//   ERR <reason>
+//
+// Keywords are case-insensitive; text is double-quoted (\" and \\ escape) or the
+// rest of the line. Empty lines and lines starting with # are skipped.
+//
+//   AUTH <token>
+//   SHOW | BLANK | FLASH | MODE BLANK|MESSAGE
+//   TITLE "…" | SUB "…" | SCENE "name"
+//   TIMER START|PAUSE|RESET|SKIP | TIMER EXTEND [minutes]
+//   PING | HELP
+//
+// A socket connection must start with AUTH and the token from Settings: any web
+// page the proctor opens can reach 127.0.0.1 too. The socket closes on a wrong
+// token, on a line it can't read and, without a reply, on anything that looks
+// like HTTP. stdin needs no token; whoever started the app holds the pipe.
+//
+// Everything goes to every Student View, like the tray and the remote control.
+
+use std::future::Future;
+use std::io::IsTerminal;
+use std::net::{Ipv4Addr, SocketAddr};
+use std::sync::{Arc, Mutex};
+use std::time::Duration;
+
+use serde::Serialize;
+use serde_json::{json, Value};
+use tauri::{AppHandle, Manager};
+use tokio::io::{AsyncBufReadExt, AsyncRead, AsyncWrite, AsyncWriteExt, BufReader};
+use tokio::net::TcpListener;
+use tokio::sync::{broadcast, watch};
+
+use crate::{protocol, remote};
+
+// A few heartbeats; a Student View that hasn't acked by then isn't coming
+const ACK_TIMEOUT: Duration = Duration::from_secs(2);
+const MAX_LINE_CHARS: usize = 1000;
+const MAX_EXTEND_MINUTES: u32 = 60;
+
+const HELP: &str = "AUTH <token> | SHOW | BLANK | FLASH | MODE BLANK|MESSAGE | TITLE \"text\" | SUB \"text\" \
+    | SCENE \"name\" | TIMER START|PAUSE|RESET|SKIP | TIMER EXTEND [minutes] | PING";
+
+const HTTP_METHODS: [&str; 9] = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD", "OPTIONS", "CONNECT", "TRACE"];
+
+// Managed for the whole run; the socket comes and goes
+pub struct ControlState {
+    running: Mutex<Option<Running>>,
+}
+
+struct Running {
+    port: u16,
+    // Stops the listener and every open connection
+    stop: watch::Sender<bool>,
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct ControlStatus {
+    running: bool,
+    port: u16,
+}
+
+#[derive(Debug, PartialEq)]
+enum Action {
+    Auth(String),
+    Reply(String),
+    Send(Value),
+    Text { title: Option<String>, subtitle: Option<String> },
+    Scene(String),
+}
+
+// Who's on the other end of the lines
+enum Peer {
+    Stdin,
+    Socket { token: Arc<str> },
+}
+
+pub fn init(app: &AppHandle) {
+    app.manage(ControlState {
+        running: Mutex::new(None),
+    });
+
+    // Only a pipe: reading a terminal would swallow what the user types into it
+    let stdin = std::io::stdin();
+    if !stdin.is_terminal() {
+        let app = app.clone();
+        tauri::async_runtime::spawn(serve_lines(
+            tokio::io::stdin(),
+            tokio::io::stdout(),
+            Peer::Stdin,
+            None,
+            move |action| run(app.clone(), action),
+        ));
+    }
+}
+
+fn words(line: &str) -> Result<Vec<String>, String> {
+    let mut words = Vec::new();
+    let mut chars = line.chars().peekable();
+    while let Some(&c) = chars.peek() {
+        if c.is_whitespace() {
+            chars.next();
+            continue;
+        }
+        let mut word = String::new();
+        if c == '"' {
+            chars.next();
+            loop {
+                match chars.next() {
+                    Some('"') => break,
+                    Some('\\') => word.push(chars.next().ok_or("unfinished escape")?),
+                    Some(ch) => word.push(ch),
+                    None => return Err("missing closing quote".into()),
+                }
+            }
+        } else {
+            while let Some(&ch) = chars.peek() {
+                if ch.is_whitespace() {
+                    break;
+                }
+                word.push(ch);
+                chars.next();
+            }
+        }
+        words.push(word);
+    }
+    Ok(words)
+}
+
+fn parse(line: &str) -> Result<Action, String> {
+    if line.chars().count() > MAX_LINE_CHARS {
+        return Err(format!("line longer than {MAX_LINE_CHARS} characters"));
+    }
+    let words = words(line)?;
+    let Some((keyword, args)) = words.split_first() else {
+        return Err("empty command".into());
+    };
+    let keyword = keyword.to_uppercase();
+    let arg = |n: usize| args.get(n).map(|a| a.to_uppercase());
+    // Unquoted text is the rest of the line
+    let text = || args.join(" ");
+
+    let action = match keyword.as_str() {
+        "AUTH" if args.len() == 1 => Action::Auth(args[0].clone()),
+        "PING" if args.is_empty() => Action::Reply("OK".into()),
+        "HELP" if args.is_empty() => Action::Reply(format!("OK {HELP}")),
+        "SHOW" if args.is_empty() => Action::Send(json!({ "type": "setMode", "mode": "message" })),
+        "BLANK" if args.is_empty() => Action::Send(json!({ "type": "setMode", "mode": "blank" })),
+        "FLASH" if args.is_empty() => Action::Send(json!({ "type": "flash" })),
+        "MODE" if args.len() == 1 => match arg(0).as_deref() {
+            Some("BLANK") => Action::Send(json!({ "type": "setMode", "mode": "blank" })),
+            Some("MESSAGE" | "SHOW") => Action::Send(json!({ "type": "setMode", "mode": "message" })),
+            _ => return Err("MODE takes BLANK or MESSAGE".into()),
+        },
+        "TITLE" if !args.is_empty() => Action::Text {
+            title: Some(text()),
+            subtitle: None,
+        },
+        "SUB" | "SUBTITLE" if !args.is_empty() => Action::Text {
+            title: None,
+            subtitle: Some(text()),
+        },
+        "SCENE" if !args.is_empty() => Action::Scene(text()),
+        "TIMER" if !args.is_empty() && args.len() <= 2 => match (arg(0).as_deref(), args.get(1)) {
+            (Some("START"), None) => Action::Send(json!({ "type": "timerStart" })),
+            (Some("PAUSE"), None) => Action::Send(json!({ "type": "timerPause" })),
+            (Some("RESET"), None) => Action::Send(json!({ "type": "timerReset" })),
+            (Some("SKIP"), None) => Action::Send(json!({ "type": "timerSkip" })),
+            (Some("EXTEND"), minutes) => {
+                let minutes = match minutes {
+                    None => 1,
+                    Some(m) => m
+                        .parse::<u32>()
+                        .ok()
+                        .filter(|m| (1..=MAX_EXTEND_MINUTES).contains(m))
+                        .ok_or(format!("TIMER EXTEND takes 1 to {MAX_EXTEND_MINUTES} minutes"))?,
+                };
+                Action::Send(json!({ "type": "timerExtend", "ms": minutes * 60_000 }))
+            }
+            _ => return Err("TIMER takes START, PAUSE, RESET, SKIP or EXTEND [minutes]".into()),
+        },
+        "AUTH" | "PING" | "HELP" | "SHOW" | "BLANK" | "FLASH" | "MODE" | "TITLE" | "SUB" | "SUBTITLE" | "SCENE"
+        | "TIMER" => return Err(format!("wrong arguments for {keyword}; try HELP")),
+        _ => return Err(format!("unknown command {keyword}; try HELP")),
+    };
+    Ok(action)
+}
+
+// A request line ("POST / HTTP/1.1") or a header ("Host: …"), as a browser sends them
+fn looks_like_http(line: &str) -> bool {
+    let upper = line.to_ascii_uppercase();
+    let request_line = HTTP_METHODS
+        .iter()
+        .any(|m| upper.strip_prefix(m).is_some_and(|rest| rest.starts_with(' ')));
+    let header = upper
+        .split_once(':')
+        .is_some_and(|(name, _)| !name.is_empty() && name.chars().all(|c| c.is_ascii_alphanumeric() || c == '-'));
+    request_line || header || upper.contains(" HTTP/")
+}
+
+// True once the main Student View reports having applied command `id`
+async fn wait_for_ack(states: &mut broadcast::Receiver<String>, id: &str) -> bool {
+    let acked = async {
+        loop {
+            match states.recv().await {
+                Ok(json) => {
+                    let Ok(report) = serde_json::from_str::<Value>(&json) else {
+                        continue;
+                    };
+                    if report["view"] == "main" && report["ack"] == id {
+                        return true;
+                    }
+                }
+                Err(broadcast::error::RecvError::Lagged(_)) => continue,
+                Err(_) => return false,
+            }
+        }
+    };
+    tokio::time::timeout(ACK_TIMEOUT, acked).await.unwrap_or(false)
+}
+
+// The actions that need the app; serve_lines answers the rest itself
+async fn run(app: AppHandle, action: Action) -> String {
+    match action {
+        Action::Send(command) => {
+            // Subscribed before sending, so a quick ack can't slip past
+            let mut states = protocol::subscribe_states(&app);
+            let id = protocol::send_command(&app, "control", command);
+            if wait_for_ack(&mut states, &id).await {
+                format!("OK {id}")
+            } else {
+                format!("ERR no ack for {id} from the Student View")
+            }
+        }
+        Action::Text { title, subtitle } => match remote::set_text(&app, title, subtitle) {
+            Ok(()) => "OK".into(),
+            Err(e) => format!("ERR {e}"),
+        },
+        Action::Scene(name) => match remote::scene_id_by_name(&app, &name) {
+            Some(id) if remote::recall_scene(&app, &id) => "OK".into(),
+            _ => format!("ERR no scene named \"{name}\""),
+        },
+        Action::Auth(_) | Action::Reply(_) => "ERR internal: not an app action".into(),
+    }
+}
+
+async fn stopped(stop: &mut Option<watch::Receiver<bool>>) {
+    match stop {
+        Some(stop) => {
+            let _ = stop.changed().await;
+        }
+        // stdin runs until the pipe closes
+        None => std::future::pending().await,
+    }
+}
+
+// `run` carries out the app actions; taking it as a parameter lets the tests drive
+// a whole session without an app
+async fn serve_lines<R, W, F, Fut>(
+    reader: R,
+    mut writer: W,
+    peer: Peer,
+    mut stop: Option<watch::Receiver<bool>>,
+    mut run: F,
+) where
+    R: AsyncRead + Unpin,
+    W: AsyncWrite + Unpin,
+    F: FnMut(Action) -> Fut,
+    Fut: Future<Output = String>,
+{
+    let token = match &peer {
+        Peer::Socket { token } => Some(token.clone()),
+        Peer::Stdin => None,
+    };
+    let mut paired = token.is_none();
+    let mut lines = BufReader::new(reader).lines();
+    loop {
+        let line = tokio::select! {
+            line = lines.next_line() => line,
+            _ = stopped(&mut stop) => break,
+        };
+        let Ok(Some(line)) = line else {
+            break;
+        };
+        let line = line.trim();
+        if line.is_empty() || line.starts_with('#') {
+            continue;
+        }
+        // A web page posting to the socket; it gets nothing to read
+        if token.is_some() && looks_like_http(line) {
+            break;
+        }
+
+        let (reply, keep_open) = match (parse(line), &token) {
+            (Err(e), _) => (format!("ERR {e}"), token.is_none()),
+            (Ok(Action::Auth(given)), Some(token)) => {
+                paired = remote::same_token(&given, token);
+                if paired {
+                    ("OK".into(), true)
+                } else {
+                    ("ERR wrong token".into(), false)
+                }
+            }
+            (Ok(Action::Auth(_)), None) => ("OK".into(), true),
+            (Ok(_), Some(_)) if !paired => ("ERR send AUTH <token> first".into(), false),
+            (Ok(Action::Reply(reply)), _) => (reply, true),
+            (Ok(action), _) => (run(action).await, true),
+        };
+        if writer.write_all(format!("{reply}\n").as_bytes()).await.is_err() || writer.flush().await.is_err() {
+            break;
+        }
+        if !keep_open {
+            break;
+        }
+    }
+}
+
+async fn accept(app: AppHandle, listener: TcpListener, token: Arc<str>, mut stop: watch::Receiver<bool>) {
+    loop {
+        tokio::select! {
+            conn = listener.accept() => match conn {
+                Ok((stream, _)) => {
+                    let (reader, writer) = stream.into_split();
+                    let app = app.clone();
+                    tauri::async_runtime::spawn(serve_lines(
+                        reader,
+                        writer,
+                        Peer::Socket { token: token.clone() },
+                        Some(stop.clone()),
+                        move |action| run(app.clone(), action),
+                    ));
+                }
+                // Usually out of file handles; the next accept may well work
+                Err(e) => eprintln!("control socket: {e}"),
+            },
+            _ = stop.changed() => break,
+        }
+    }
+}
+
+fn status(control: &ControlState) -> ControlStatus {
+    let running = control.running.lock().unwrap();
+    ControlStatus {
+        running: running.is_some(),
+        port: running.as_ref().map_or(0, |r| r.port),
+    }
+}
+
+fn stop(control: &ControlState) {
+    if let Some(running) = control.running.lock().unwrap().take() {
+        let _ = running.stop.send(true);
+    }
+}
+
+// Loopback only, so other computers can't connect; local programs and web pages
+// can, which is what the token is for. Restarts the socket if it's already open.
+#[tauri::command]
+pub async fn control_start(app: AppHandle, port: u16, token: String) -> Result<ControlStatus, String> {
+    if token.chars().count() < remote::MIN_TOKEN_CHARS {
+        return Err("The control token is too short.".into());
+    }
+    if port < 1024 {
+        return Err("Pick a port from 1024 to 65535.".into());
+    }
+
+    let control = app.state::<ControlState>();
+    stop(&control);
+
+    let listener = remote::bind_after_stop(SocketAddr::from((Ipv4Addr::LOCALHOST, port)))
+        .await
+        .map_err(|e| format!("Couldn't listen on port {port}: {e}"))?;
+    let (stop_tx, stop_rx) = watch::channel(false);
+    tauri::async_runtime::spawn(accept(app.clone(), listener, token.into(), stop_rx));
+
+    *control.running.lock().unwrap() = Some(Running { port, stop: stop_tx });
+    Ok(status(&control))
+}
+
+#[tauri::command]
+pub fn control_stop(app: AppHandle) {
+    stop(&app.state::<ControlState>());
+}
+
+#[tauri::command]
+pub fn control_status(app: AppHandle) -> ControlStatus {
+    status(&app.state::<ControlState>())
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use tokio::io::{AsyncReadExt, AsyncWriteExt};
+
+    const TOKEN: &str = "0123456789abcdef0123456789abcdef";
+
+    #[test]
+    fn words_handle_quotes_and_escapes() {
+        assert_eq!(words(r#"SUB "TURN ON YOUR \"CAMERA\"" now"#).unwrap(), vec!["SUB", "TURN ON YOUR \"CAMERA\"", "now"]);
+        assert_eq!(words(r#"TITLE "a\\b""#).unwrap(), vec!["TITLE", "a\\b"]);
+        assert_eq!(words("  FLASH   ").unwrap(), vec!["FLASH"]);
+        assert_eq!(words(r#"TITLE """#).unwrap(), vec!["TITLE", ""]);
+        assert!(words(r#"TITLE "never closed"#).is_err());
+        assert!(words(r#"TITLE "ends in \"#).is_err());
+    }
+
+    #[test]
+    fn parses_text_quoted_or_as_the_rest_of_the_line() {
+        assert_eq!(
+            parse(r#"sub "TURN ON YOUR CAMERA""#),
+            Ok(Action::Text { title: None, subtitle: Some("TURN ON YOUR CAMERA".into()) })
+        );
+        assert_eq!(
+            parse("TITLE Back in five"),
+            Ok(Action::Text { title: Some("Back in five".into()), subtitle: None })
+        );
+        assert_eq!(parse(r#"SCENE "Midterm""#), Ok(Action::Scene("Midterm".into())));
+        assert!(parse("TITLE").is_err());
+    }
+
+    #[test]
+    fn parses_mode() {
+        let blank = Ok(Action::Send(json!({ "type": "setMode", "mode": "blank" })));
+        let message = Ok(Action::Send(json!({ "type": "setMode", "mode": "message" })));
+        assert_eq!(parse("MODE BLANK"), blank);
+        assert_eq!(parse("mode blank"), blank);
+        assert_eq!(parse("BLANK"), blank);
+        assert_eq!(parse("MODE MESSAGE"), message);
+        assert_eq!(parse("MODE show"), message);
+        assert_eq!(parse("SHOW"), message);
+        assert!(parse("MODE SIDEWAYS").is_err());
+        assert!(parse("MODE").is_err());
+        assert!(parse("MODE BLANK NOW").is_err());
+    }
+
+    #[test]
+    fn timer_extend_takes_1_to_60_minutes() {
+        let extend = |ms: u32| Ok(Action::Send(json!({ "type": "timerExtend", "ms": ms })));
+        assert_eq!(parse("TIMER EXTEND"), extend(60_000));
+        assert_eq!(parse("timer extend 5"), extend(300_000));
+        assert_eq!(parse("TIMER EXTEND 60"), extend(3_600_000));
+        for bad in ["TIMER EXTEND 0", "TIMER EXTEND 61", "TIMER EXTEND -1", "TIMER EXTEND five"] {
+            assert!(parse(bad).is_err(), "{bad}");
+        }
+        assert_eq!(parse("TIMER START"), Ok(Action::Send(json!({ "type": "timerStart" }))));
+        assert!(parse("TIMER START NOW").is_err());
+        assert!(parse("TIMER").is_err());
+    }
+
+    #[test]
+    fn rejects_unknown_keywords_and_wrong_arguments() {
+        assert_eq!(parse("JUMP"), Err("unknown command JUMP; try HELP".into()));
+        assert_eq!(parse("flash twice"), Err("wrong arguments for FLASH; try HELP".into()));
+        assert!(parse("AUTH").is_err());
+        assert!(parse("").is_err());
+    }
+
+    #[test]
+    fn limits_line_length() {
+        let at_limit = format!("TITLE {}", "a".repeat(MAX_LINE_CHARS - 6));
+        assert!(parse(&at_limit).is_ok());
+        let over = format!("TITLE {}", "a".repeat(MAX_LINE_CHARS - 5));
+        assert!(parse(&over).is_err());
+    }
+
+    #[test]
+    fn spots_http() {
+        for line in ["POST / HTTP/1.1", "GET /?x HTTP/1.0", "Host: 127.0.0.1:8766", "Content-Type: text/plain"] {
+            assert!(looks_like_http(line), "{line}");
+        }
+        for line in ["BLANK", r#"TITLE "Note: bring your ID""#, "SUB Note: bring your ID", "AUTH abc"] {
+            assert!(!looks_like_http(line), "{line}");
+        }
+    }
+
+    // A whole session over an in-memory pipe; app actions come back as "RAN …"
+    async fn session(peer: Peer, input: &str) -> Vec<String> {
+        let (client, server) = tokio::io::duplex(64 * 1024);
+        let (server_read, server_write) = tokio::io::split(server);
+        let serving = serve_lines(server_read, server_write, peer, None, |action| async move {
+            format!("RAN {action:?}")
+        });
+        let (mut client_read, mut client_write) = tokio::io::split(client);
+        let talking = async {
+            // The server may already have hung up; its replies tell the story
+            let _ = client_write.write_all(input.as_bytes()).await;
+            let _ = client_write.shutdown().await;
+            let mut out = String::new();
+            client_read.read_to_string(&mut out).await.unwrap();
+            out
+        };
+        let ((), out) = tokio::join!(serving, talking);
+        out.lines().map(str::to_owned).collect()
+    }
+
+    fn socket() -> Peer {
+        Peer::Socket { token: Arc::from(TOKEN) }
+    }
+
+    #[tokio::test]
+    async fn stdin_needs_no_token_and_survives_mistakes() {
+        let replies = session(Peer::Stdin, "PING\nJUMP\n# a comment\n\nFLASH\n").await;
+        assert_eq!(replies.len(), 3);
+        assert_eq!(replies[0], "OK");
+        assert!(replies[1].starts_with("ERR unknown command"));
+        assert!(replies[2].starts_with("RAN Send"));
+    }
+
+    #[tokio::test]
+    async fn socket_runs_commands_after_auth() {
+        let replies = session(socket(), &format!("AUTH {TOKEN}\nPING\nMODE BLANK\nSUB \"Cameras on\"\n")).await;
+        assert_eq!(replies[..2], ["OK", "OK"]);
+        assert!(replies[2].starts_with("RAN Send"));
+        assert!(replies[3].starts_with("RAN Text"));
+    }
+
+    #[tokio::test]
+    async fn socket_closes_without_auth_or_with_a_wrong_token() {
+        assert_eq!(session(socket(), "BLANK\nPING\n").await, ["ERR send AUTH <token> first"]);
+        assert_eq!(session(socket(), "AUTH nope\nBLANK\n").await, ["ERR wrong token"]);
+    }
+
+    #[tokio::test]
+    async fn socket_closes_on_an_unreadable_line() {
+        let replies = session(socket(), &format!("AUTH {TOKEN}\nJUMP\nBLANK\n")).await;
+        assert_eq!(replies.len(), 2);
+        assert!(replies[1].starts_with("ERR unknown command"));
+    }
+
+    // What fetch(…, { method: "POST", mode: "no-cors", body: "BLANK\n" }) from a web page sends
+    #[tokio::test]
+    async fn socket_ignores_a_browser() {
+        let request = "POST / HTTP/1.1\r\nHost: 127.0.0.1:8766\r\nContent-Type: text/plain\r\n\r\nBLANK\nTITLE \"hi\"\n";
+        assert!(session(socket(), request).await.is_empty());
+        let after_auth = format!("AUTH {TOKEN}\nGET / HTTP/1.1\nBLANK\n");
+        assert_eq!(session(socket(), &after_auth).await, ["OK"]);
+    }
+}
@@ -0,0 +1,349 @@
+// Starting into a configured state, from a desktop shortcut or an LMS link:
+//
+//   attentionscreen --scene "Midterm" --timer 90m --start --no-settings
+//   attentionscreen://launch?scene=Midterm&timer=90m&start
+//
+// Options: --scene NAME, --title TEXT, --subtitle TEXT, --timer 90m|1h30m|45s|90
+// (plain numbers are minutes), --start, --mode blank|message, --no-settings,
+// --fullscreen; also as --key=value, and as query parameters of a link.
+//
+// The first launch keeps its options until the main window asks for them
+// (take_launch_options, src/launch.ts). A later launch doesn't open a second copy:
+// the single-instance plugin hands its arguments (or, on macOS, the deep-link
+// plugin its link) to this instance, which sends them to the main window as
+// LAUNCH_EVENT. Anything that can't be read is reported, not fatal.
+
+use std::sync::Mutex;
+
+use serde::Serialize;
+use tauri::{App, AppHandle, Emitter, Manager, State, Url};
+use tauri_plugin_deep_link::DeepLinkExt;
+
+use crate::remote::MAX_TEXT_CHARS;
+
+pub const URL_SCHEME: &str = "attentionscreen";
+pub const LAUNCH_EVENT: &str = "launch:options";
+
+// The timer's own limits, see validateSettings in src/protocol.ts
+const MAX_TIMER_SECONDS: u32 = 9999 * 60 + 59;
+
+// Options that take no value
+const FLAGS: [&str; 3] = ["start", "no-settings", "fullscreen"];
+
+#[derive(Default, Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct LaunchOptions {
+    scene: Option<String>,
+    title: Option<String>,
+    subtitle: Option<String>,
+    timer_seconds: Option<u32>,
+    start: bool,
+    mode: Option<&'static str>,
+    no_settings: bool,
+    fullscreen: bool,
+    errors: Vec<String>,
+}
+
+enum Pending {
+    Waiting(LaunchOptions),
+    Taken,
+}
+
+pub struct PendingLaunch(Mutex<Pending>);
+
+// "90m", "1h30m", "45s"; a plain number is minutes
+fn parse_duration(text: &str) -> Option<u32> {
+    let text = text.trim().to_lowercase();
+    if !text.is_empty() && text.chars().all(|c| c.is_ascii_digit()) {
+        return text.parse::<u32>().ok()?.checked_mul(60).filter(|s| (1..=MAX_TIMER_SECONDS).contains(s));
+    }
+
+    let mut total: u32 = 0;
+    let mut digits = String::new();
+    for c in text.chars() {
+        if c.is_ascii_digit() {
+            digits.push(c);
+            continue;
+        }
+        let unit = match c {
+            'h' => 3600,
+            'm' => 60,
+            's' => 1,
+            _ => return None,
+        };
+        let n: u32 = digits.parse().ok()?;
+        total = total.checked_add(n.checked_mul(unit)?)?;
+        digits.clear();
+    }
+    (digits.is_empty() && (1..=MAX_TIMER_SECONDS).contains(&total)).then_some(total)
+}
+
+fn is_launch_url(arg: &str) -> bool {
+    arg.strip_prefix(URL_SCHEME).is_some_and(|rest| rest.starts_with(':'))
+}
+
+impl LaunchOptions {
+    fn text(&mut self, key: &str, value: String) -> Option<String> {
+        if value.chars().count() > MAX_TEXT_CHARS {
+            self.errors.push(format!("{key}: longer than {MAX_TEXT_CHARS} characters"));
+            return None;
+        }
+        Some(value)
+    }
+
+    fn set(&mut self, key: &str, value: Option<String>) {
+        if FLAGS.contains(&key) {
+            let on = match value.as_deref().map(str::to_lowercase).as_deref() {
+                None | Some("" | "1" | "true" | "yes") => true,
+                Some("0" | "false" | "no") => false,
+                Some(other) => {
+                    self.errors.push(format!("{key}: expected no value, got \"{other}\""));
+                    return;
+                }
+            };
+            match key {
+                "start" => self.start = on,
+                "no-settings" => self.no_settings = on,
+                _ => self.fullscreen = on,
+            }
+            return;
+        }
+
+        let Some(value) = value else {
+            self.errors.push(format!("{key}: missing value"));
+            return;
+        };
+        match key {
+            "scene" => self.scene = Some(value),
+            "title" => self.title = self.text(key, value),
+            "subtitle" => self.subtitle = self.text(key, value),
+            "timer" => match parse_duration(&value) {
+                Some(seconds) => self.timer_seconds = Some(seconds),
+                None => self.errors.push(format!("timer: can't read \"{value}\" (try 90m or 1h30m)")),
+            },
+            "mode" => match value.to_lowercase().as_str() {
+                "blank" => self.mode = Some("blank"),
+                "message" | "show" => self.mode = Some("message"),
+                _ => self.errors.push(format!("mode: expected blank or message, got \"{value}\"")),
+            },
+            _ => self.errors.push(format!("unknown option {key}")),
+        }
+    }
+
+    fn set_from_url(&mut self, link: &str) {
+        match Url::parse(link) {
+            Ok(url) if url.scheme() == URL_SCHEME => {
+                for (key, value) in url.query_pairs() {
+                    self.set(&key, Some(value.into_owned()));
+                }
+            }
+            _ => self.errors.push(format!("can't read link {link}")),
+        }
+    }
+
+    // Without the program name
+    pub fn from_args(args: impl IntoIterator<Item = String>) -> Self {
+        let mut options = Self::default();
+        let mut args = args.into_iter().peekable();
+        while let Some(arg) = args.next() {
+            if is_launch_url(&arg) {
+                options.set_from_url(&arg);
+                continue;
+            }
+            // Old macOS adds a process serial number when started from the Finder
+            if arg.starts_with("-psn_") {
+                continue;
+            }
+            let Some(option) = arg.strip_prefix("--") else {
+                options.errors.push(format!("unexpected argument {arg}"));
+                continue;
+            };
+            let (key, value) = match option.split_once('=') {
+                Some((key, value)) => (key.to_string(), Some(value.to_string())),
+                None if FLAGS.contains(&option) => (option.to_string(), None),
+                // "--title --start" is a missing title, not one reading "--start"
+                None => (option.to_string(), args.next_if(|next| !next.starts_with("--"))),
+            };
+            options.set(&key, value);
+        }
+        for error in &options.errors {
+            eprintln!("attentionscreen: {error}");
+        }
+        options
+    }
+
+    // Later options win; flags only ever turn on
+    fn merge(&mut self, other: LaunchOptions) {
+        self.scene = other.scene.or(self.scene.take());
+        self.title = other.title.or(self.title.take());
+        self.subtitle = other.subtitle.or(self.subtitle.take());
+        self.timer_seconds = other.timer_seconds.or(self.timer_seconds);
+        self.mode = other.mode.or(self.mode);
+        self.start |= other.start;
+        self.no_settings |= other.no_settings;
+        self.fullscreen |= other.fullscreen;
+        self.errors.extend(other.errors);
+    }
+}
+
+// Before the main window has asked, options join the launch's own; after, they go to it
+fn deliver(app: &AppHandle, options: LaunchOptions) {
+    let pending = app.state::<PendingLaunch>();
+    let mut pending = pending.0.lock().unwrap();
+    match &mut *pending {
+        Pending::Waiting(first) => first.merge(options),
+        Pending::Taken => {
+            let _ = app.emit_to("main", LAUNCH_EVENT, options);
+        }
+    }
+}
+
+fn show_main(app: &AppHandle) {
+    if let Some(win) = app.get_webview_window("main") {
+        let _ = win.unminimize();
+        let _ = win.show();
+        let _ = win.set_focus();
+    }
+}
+
+// A second launch, from the single-instance plugin. `argv` includes the program
+// name. Links are skipped: the deep-link plugin delivers those itself.
+pub fn forward_args(app: &AppHandle, argv: Vec<String>) {
+    let args: Vec<String> = argv.into_iter().skip(1).filter(|a| !is_launch_url(a)).collect();
+    if !args.is_empty() {
+        deliver(app, LaunchOptions::from_args(args));
+    }
+    show_main(app);
+}
+
+pub fn init(app: &App) -> Result<(), Box<dyn std::error::Error>> {
+    let options = LaunchOptions::from_args(std::env::args().skip(1));
+    // macOS opens the app for a link without putting it in the arguments
+    #[cfg(target_os = "macos")]
+    let options = {
+        let mut options = options;
+        for url in app.deep_link().get_current().ok().flatten().unwrap_or_default() {
+            options.merge(LaunchOptions::from_args([url.to_string()]));
+        }
+        options
+    };
+    app.manage(PendingLaunch(Mutex::new(Pending::Waiting(options))));
+
+    // Installed apps get the scheme from the bundle; this covers Linux and Windows dev builds
+    #[cfg(any(target_os = "linux", all(debug_assertions, windows)))]
+    app.deep_link().register_all()?;
+
+    let handle = app.handle().clone();
+    app.deep_link().on_open_url(move |event| {
+        for url in event.urls() {
+            deliver(&handle, LaunchOptions::from_args([url.to_string()]));
+        }
+        show_main(&handle);
+    });
+    Ok(())
+}
+
+// Once: later launches arrive as LAUNCH_EVENT
+#[tauri::command]
+pub fn take_launch_options(pending: State<'_, PendingLaunch>) -> Option<LaunchOptions> {
+    match std::mem::replace(&mut *pending.0.lock().unwrap(), Pending::Taken) {
+        Pending::Waiting(options) => Some(options),
+        Pending::Taken => None,
+    }
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+
+    fn args(line: &[&str]) -> LaunchOptions {
+        LaunchOptions::from_args(line.iter().map(|a| a.to_string()))
+    }
+
+    #[test]
+    fn reads_durations() {
+        assert_eq!(parse_duration("90"), Some(90 * 60));
+        assert_eq!(parse_duration("90m"), Some(90 * 60));
+        assert_eq!(parse_duration("1h30m"), Some(90 * 60));
+        assert_eq!(parse_duration(" 45S "), Some(45));
+        assert_eq!(parse_duration("1h5s"), Some(3605));
+        assert_eq!(parse_duration("9999m59s"), Some(MAX_TIMER_SECONDS));
+    }
+
+    #[test]
+    fn rejects_odd_durations() {
+        for text in ["", "0", "0m", "m", "90x", "1.5h", "30m10", "-5", "10000m", "99999999999"] {
+            assert_eq!(parse_duration(text), None, "{text}");
+        }
+    }
+
+    #[test]
+    fn reads_values_and_flags() {
+        let options = args(&["--scene", "Midterm", "--timer=1h30m", "--start", "--mode", "show", "--title", "Quiet please"]);
+        assert_eq!(options.scene.as_deref(), Some("Midterm"));
+        assert_eq!(options.timer_seconds, Some(90 * 60));
+        assert!(options.start);
+        assert_eq!(options.mode, Some("message"));
+        assert_eq!(options.title.as_deref(), Some("Quiet please"));
+        assert!(!options.no_settings && !options.fullscreen);
+        assert!(options.errors.is_empty(), "{:?}", options.errors);
+    }
+
+    #[test]
+    fn flag_after_a_value_option_is_not_its_value() {
+        let options = args(&["--title", "--start", "--subtitle"]);
+        assert_eq!(options.title, None);
+        assert!(options.start);
+        assert_eq!(options.errors, ["title: missing value", "subtitle: missing value"]);
+    }
+
+    #[test]
+    fn reports_bad_options_and_keeps_the_rest() {
+        let options = args(&["stray", "--timer", "soon", "--mode", "dark", "--start=maybe", "--colour", "red", "--fullscreen"]);
+        assert!(options.fullscreen);
+        assert_eq!(options.timer_seconds, None);
+        assert_eq!(options.errors.len(), 5, "{:?}", options.errors);
+        assert!(options.errors[0].starts_with("unexpected argument stray"));
+        assert!(options.errors[1].starts_with("timer:"));
+        assert!(options.errors[2].starts_with("mode:"));
+        assert!(options.errors[3].starts_with("start:"));
+        assert_eq!(options.errors[4], "unknown option colour");
+    }
+
+    #[test]
+    fn limits_text_length() {
+        let long = "a".repeat(MAX_TEXT_CHARS + 1);
+        let options = args(&["--title", &long, "--subtitle", "fine"]);
+        assert_eq!(options.title, None);
+        assert_eq!(options.subtitle.as_deref(), Some("fine"));
+        assert_eq!(options.errors.len(), 1);
+    }
+
+    #[test]
+    fn reads_links() {
+        let options = args(&["attentionscreen://launch?scene=Mid%20term&timer=45&start&no-settings=1"]);
+        assert_eq!(options.scene.as_deref(), Some("Mid term"));
+        assert_eq!(options.timer_seconds, Some(45 * 60));
+        assert!(options.start && options.no_settings);
+        assert!(options.errors.is_empty(), "{:?}", options.errors);
+
+        assert_eq!(args(&["attentionscreen://[broken"]).errors.len(), 1);
+    }
+
+    #[test]
+    fn skips_the_macos_process_number() {
+        assert!(args(&["-psn_0_12345"]).errors.is_empty());
+    }
+
+    #[test]
+    fn later_launches_win_and_flags_only_turn_on() {
+        let mut first = args(&["--scene", "Quiz", "--title", "First", "--timer", "10", "--start", "--mode", "blank"]);
+        first.merge(args(&["--title", "Second", "--fullscreen", "--bogus=1"]));
+        assert_eq!(first.scene.as_deref(), Some("Quiz"));
+        assert_eq!(first.title.as_deref(), Some("Second"));
+        assert_eq!(first.timer_seconds, Some(600));
+        assert_eq!(first.mode, Some("blank"));
+        assert!(first.start && first.fullscreen);
+        assert_eq!(first.errors, ["unknown option bogus"]);
+    }
+}
@@ -3,6 +3,12 @@
 use tauri::{Emitter, Manager};
 use tauri::menu::{MenuBuilder, MenuItem, PredefinedMenuItem};
 
+mod control;
+mod launch;
+mod protocol;
+mod remote;
+mod tray;
+
 #[tauri::command]
 fn greet(name: &str) -> String {
     format!("Hello, {}! You've been greeted from Rust!", name)
@@ -10,10 +16,52 @@ fn greet(name: &str) -> String {
 
 #[cfg_attr(mobile, tauri::mobile_entry_point)]
 pub fn run() {
-    tauri::Builder::default()
+    let mut builder = tauri::Builder::default();
+
+    // Registered first: a second launch hands its arguments to this instance and exits
+    #[cfg(desktop)]
+    {
+        builder = builder.plugin(tauri_plugin_single_instance::init(|app, argv, _cwd| {
+            launch::forward_args(app, argv);
+        }));
+    }
+
+    builder
         .plugin(tauri_plugin_opener::init())
-        .invoke_handler(tauri::generate_handler![greet])
+        .plugin(tauri_plugin_deep_link::init())
+        .invoke_handler(tauri::generate_handler![
+            greet,
+            tray::set_tray_menu,
+            tray::set_tray_status,
+            remote::remote_start,
+            remote::remote_stop,
+            remote::remote_status,
+            remote::remote_set_scenes,
+            control::control_start,
+            control::control_stop,
+            control::control_status,
+            launch::take_launch_options,
+        ])
         .setup(|app| {
+            // System-wide proctor hotkeys; the main window registers them for the app's lifetime (syncHotkeys in src/main.ts)
+            #[cfg(desktop)]
+            app.handle().plugin(tauri_plugin_global_shortcut::Builder::new().build())?;
+
+            // --scene, --timer … and attentionscreen:// links; the main window applies them (src/launch.ts)
+            launch::init(app)?;
+
+            // Show / Blank / Flash and the timer without the Settings window
+            tray::create(app.handle())?;
+
+            // State reports for the remote and the control protocol to follow
+            protocol::init(app.handle());
+
+            // Opt-in phone / laptop remote; the main window starts it when enabled (src/remote.ts)
+            remote::init(app.handle());
+
+            // Line commands from button boxes and scripts: stdin now, the socket when enabled (src/control.ts)
+            control::init(app.handle());
+
             #[cfg(target_os = "macos")]
             {
                 use tauri::menu::{MenuBuilder, MenuItem, SubmenuBuilder, PredefinedMenuItem};
@@ -74,6 +122,9 @@ pub fn run() {
         })
         
         .on_menu_event(|app, event| {
+            if tray::handle_menu_event(app, event.id().as_ref()) {
+                return;
+            }
             if event.id().as_ref() == "open_settings" {
                 if let Some(win) = app.get_webview_window("main") {
                     let _ = win.emit("menu:open-settings", ());
@@ -0,0 +1,52 @@
+// The Rust end of the command channel in src/protocol.ts. The tray and the remote
+// control send the same envelopes the Settings window does, so every Student View
+// validates and acks them like any other command.
+
+use std::sync::atomic::{AtomicU64, Ordering};
+
+use serde_json::{json, Value};
+use tauri::{AppHandle, Emitter, Listener, Manager, Runtime};
+use tokio::sync::broadcast;
+
+// Keep in step with src/protocol.ts
+pub const PROTOCOL_VERSION: u32 = 2;
+pub const COMMAND_EVENT: &str = "attention:command";
+pub const STATE_EVENT: &str = "attention:state";
+pub const ALL_VIEWS: &str = "*";
+
+static COMMAND_SEQ: AtomicU64 = AtomicU64::new(0);
+
+// Every state report, as the JSON the Student View emitted, for whoever subscribes
+pub struct StateFeed(broadcast::Sender<String>);
+
+pub fn init<R: Runtime>(app: &AppHandle<R>) {
+    let (states, _) = broadcast::channel(64);
+    let forward = states.clone();
+    app.listen_any(STATE_EVENT, move |event| {
+        // No subscribers is the usual case, not an error
+        let _ = forward.send(event.payload().to_string());
+    });
+    app.manage(StateFeed(states));
+}
+
+pub fn subscribe_states<R: Runtime>(app: &AppHandle<R>) -> broadcast::Receiver<String> {
+    app.state::<StateFeed>().0.subscribe()
+}
+
+// `command` is the flat body, e.g. {"type": "setMode", "mode": "blank"}; `source`
+// prefixes the id ("tray-3") so a log shows where a command came from. Returns
+// the id, which each Student View's report acks once it has applied the command.
+pub fn send_command<R: Runtime>(app: &AppHandle<R>, source: &str, command: Value) -> String {
+    let seq = COMMAND_SEQ.fetch_add(1, Ordering::Relaxed) + 1;
+    let id = format!("{source}-{seq}");
+    let mut envelope = json!({
+        "v": PROTOCOL_VERSION,
+        "id": id,
+        "target": ALL_VIEWS,
+    });
+    if let (Value::Object(fields), Value::Object(extra)) = (&mut envelope, command) {
+        fields.extend(extra);
+    }
+    let _ = app.emit(COMMAND_EVENT, envelope);
+    id
+}
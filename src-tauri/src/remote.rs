@@ -0,0 +1,455 @@
+// Opt-in remote control over the local network, for triggering the Student View
+// from a phone or a second laptop. Off until the proctor turns it on in Settings
+// (src/remote.ts), which hands over the port and the pairing token.
+//
+//   GET  /             the remote page (remote.html); it takes the token from the URL fragment
+//   GET  /api/scenes   [{ id, name }]
+//   POST /api/command  { "type": "setMode", "mode": "message" | "blank" }
+//                      { "type": "flash" | "timerStart" | "timerPause" | "timerReset" }
+//                      { "type": "setText", "title"?: string, "subtitle"?: string }
+//                      { "type": "recallScene", "id": string }
+//   GET  /api/state    WebSocket: every Student View state report, as sent on STATE_EVENT
+//
+// Every /api request needs the token (Authorization: Bearer …, or ?token= where a
+// browser can't set headers), and only loopback and private-network peers get an
+// answer at all. Mode, flash and timer commands go out like the tray's; text and
+// scenes need the webview's storage, so the main window carries those out.
+
+use std::io::ErrorKind;
+use std::net::{IpAddr, Ipv4Addr, SocketAddr, UdpSocket};
+use std::sync::{Arc, Mutex};
+use std::time::Duration;
+
+use axum::extract::ws::{Message, WebSocket, WebSocketUpgrade};
+use axum::extract::{ConnectInfo, Query, Request, State};
+use axum::http::{header, StatusCode};
+use axum::middleware::{self, Next};
+use axum::response::{Html, IntoResponse, Response};
+use axum::routing::{get, post};
+use axum::{Json, Router};
+use serde::{Deserialize, Serialize};
+use serde_json::json;
+use tauri::{AppHandle, Emitter, Manager};
+use tokio::net::TcpListener;
+use tokio::sync::{broadcast, oneshot, watch};
+
+use crate::protocol;
+
+const REMOTE_PAGE: &str = include_str!("remote.html");
+
+// Same limit for title and subtitle; the Settings form has none, but a remote shouldn't flood the screen
+pub(crate) const MAX_TEXT_CHARS: usize = 500;
+pub(crate) const MIN_TOKEN_CHARS: usize = 16;
+
+#[derive(Clone, Serialize, Deserialize)]
+pub struct SceneRef {
+    id: String,
+    name: String,
+}
+
+// Managed for the whole run; the server itself comes and goes
+pub struct RemoteState {
+    scenes: Mutex<Vec<SceneRef>>,
+    running: Mutex<Option<Running>>,
+}
+
+struct Running {
+    port: u16,
+    shutdown: oneshot::Sender<()>,
+    // Upgraded WebSockets outlive graceful shutdown, so they watch this too
+    stop: watch::Sender<bool>,
+}
+
+#[derive(Clone)]
+struct Server {
+    app: AppHandle,
+    stop: watch::Receiver<bool>,
+}
+
+#[derive(Serialize)]
+#[serde(rename_all = "camelCase")]
+pub struct RemoteStatus {
+    running: bool,
+    port: u16,
+    // Where a device can reach us: localhost, plus this machine's LAN address when it has one
+    addresses: Vec<String>,
+}
+
+#[derive(Deserialize)]
+#[serde(tag = "type", rename_all = "camelCase")]
+enum RemoteCommand {
+    SetMode { mode: String },
+    Flash,
+    TimerStart,
+    TimerPause,
+    TimerReset,
+    SetText { title: Option<String>, subtitle: Option<String> },
+    RecallScene { id: String },
+}
+
+#[derive(Deserialize)]
+struct TokenQuery {
+    token: Option<String>,
+}
+
+pub fn init(app: &AppHandle) {
+    app.manage(RemoteState {
+        scenes: Mutex::new(Vec::new()),
+        running: Mutex::new(None),
+    });
+}
+
+fn is_local_network(ip: IpAddr) -> bool {
+    match ip {
+        IpAddr::V4(v4) => v4.is_loopback() || v4.is_private() || v4.is_link_local(),
+        IpAddr::V6(v6) => {
+            if let Some(v4) = v6.to_ipv4_mapped() {
+                return is_local_network(IpAddr::V4(v4));
+            }
+            let first = v6.segments()[0];
+            // loopback, unique local (fc00::/7), link-local (fe80::/10)
+            v6.is_loopback() || (first & 0xfe00) == 0xfc00 || (first & 0xffc0) == 0xfe80
+        }
+    }
+}
+
+// Compares every byte, so response time doesn't leak how much of a guess was right
+pub(crate) fn same_token(given: &str, expected: &str) -> bool {
+    given.len() == expected.len()
+        && given
+            .bytes()
+            .zip(expected.bytes())
+            .fold(0u8, |diff, (a, b)| diff | (a ^ b))
+            == 0
+}
+
+// Connecting a UDP socket sends nothing; it only picks the interface a LAN peer would reach
+fn lan_address() -> Option<IpAddr> {
+    let socket = UdpSocket::bind((Ipv4Addr::UNSPECIFIED, 0)).ok()?;
+    socket.connect((Ipv4Addr::new(10, 254, 254, 254), 9)).ok()?;
+    let ip = socket.local_addr().ok()?.ip();
+    (!ip.is_loopback() && !ip.is_unspecified() && is_local_network(ip)).then_some(ip)
+}
+
+fn status(remote: &RemoteState) -> RemoteStatus {
+    let running = remote.running.lock().unwrap();
+    let mut addresses = vec![Ipv4Addr::LOCALHOST.to_string()];
+    if let Some(ip) = lan_address() {
+        addresses.push(ip.to_string());
+    }
+    RemoteStatus {
+        running: running.is_some(),
+        port: running.as_ref().map_or(0, |r| r.port),
+        addresses,
+    }
+}
+
+fn stop(remote: &RemoteState) {
+    if let Some(running) = remote.running.lock().unwrap().take() {
+        let _ = running.stop.send(true);
+        let _ = running.shutdown.send(());
+    }
+}
+
+fn error(status: StatusCode, message: &str) -> Response {
+    (status, Json(json!({ "error": message }))).into_response()
+}
+
+async fn local_network_only(ConnectInfo(peer): ConnectInfo<SocketAddr>, request: Request, next: Next) -> Response {
+    if !is_local_network(peer.ip()) {
+        return error(StatusCode::FORBIDDEN, "local network only");
+    }
+    next.run(request).await
+}
+
+async fn require_token(
+    State(token): State<Arc<str>>,
+    Query(query): Query<TokenQuery>,
+    request: Request,
+    next: Next,
+) -> Response {
+    let bearer = request
+        .headers()
+        .get(header::AUTHORIZATION)
+        .and_then(|v| v.to_str().ok())
+        .and_then(|v| v.strip_prefix("Bearer "))
+        .map(str::to_owned);
+    let given = bearer.or(query.token);
+    if !given.is_some_and(|t| same_token(&t, &token)) {
+        return error(StatusCode::UNAUTHORIZED, "pairing token required");
+    }
+    next.run(request).await
+}
+
+async fn page() -> Html<&'static str> {
+    Html(REMOTE_PAGE)
+}
+
+async fn scenes(State(server): State<Server>) -> Json<Vec<SceneRef>> {
+    Json(server.app.state::<RemoteState>().scenes.lock().unwrap().clone())
+}
+
+async fn command(State(server): State<Server>, Json(cmd): Json<RemoteCommand>) -> Response {
+    let app = &server.app;
+    let body = match cmd {
+        RemoteCommand::SetMode { mode } => {
+            if mode != "message" && mode != "blank" {
+                return error(StatusCode::BAD_REQUEST, "mode must be \"message\" or \"blank\"");
+            }
+            json!({ "type": "setMode", "mode": mode })
+        }
+        RemoteCommand::Flash => json!({ "type": "flash" }),
+        RemoteCommand::TimerStart => json!({ "type": "timerStart" }),
+        RemoteCommand::TimerPause => json!({ "type": "timerPause" }),
+        RemoteCommand::TimerReset => json!({ "type": "timerReset" }),
+        RemoteCommand::SetText { title, subtitle } => {
+            if let Err(message) = set_text(app, title, subtitle) {
+                return error(StatusCode::BAD_REQUEST, &message);
+            }
+            return accepted();
+        }
+        RemoteCommand::RecallScene { id } => {
+            if !recall_scene(app, &id) {
+                return error(StatusCode::NOT_FOUND, "no such scene");
+            }
+            return accepted();
+        }
+    };
+    protocol::send_command(app, "remote", body);
+    accepted()
+}
+
+fn accepted() -> Response {
+    (StatusCode::ACCEPTED, Json(json!({ "ok": true }))).into_response()
+}
+
+// The local control protocol (control.rs) sends text and scenes through these too.
+
+fn check_text(title: &Option<String>, subtitle: &Option<String>) -> Result<(), String> {
+    let too_long = [title, subtitle]
+        .iter()
+        .any(|t| t.as_ref().is_some_and(|t| t.chars().count() > MAX_TEXT_CHARS));
+    if too_long {
+        return Err(format!("title and subtitle are limited to {MAX_TEXT_CHARS} characters"));
+    }
+    Ok(())
+}
+
+// None leaves that line as it is
+pub fn set_text(app: &AppHandle, title: Option<String>, subtitle: Option<String>) -> Result<(), String> {
+    check_text(&title, &subtitle)?;
+    let _ = app.emit_to("main", "remote:set-text", json!({ "title": title, "subtitle": subtitle }));
+    Ok(())
+}
+
+// False when the main window hasn't listed a scene with that id
+pub fn recall_scene(app: &AppHandle, id: &str) -> bool {
+    let known = app.state::<RemoteState>().scenes.lock().unwrap().iter().any(|s| s.id == id);
+    if known {
+        let _ = app.emit_to("main", "remote:recall-scene", id);
+    }
+    known
+}
+
+// Names aren't unique; the first match wins, ignoring case
+pub fn scene_id_by_name(app: &AppHandle, name: &str) -> Option<String> {
+    let scenes = app.state::<RemoteState>().scenes.lock().unwrap();
+    scenes
+        .iter()
+        .find(|s| s.name.to_lowercase() == name.to_lowercase())
+        .map(|s| s.id.clone())
+}
+
+async fn state_feed(State(server): State<Server>, ws: WebSocketUpgrade) -> Response {
+    let states = protocol::subscribe_states(&server.app);
+    ws.on_upgrade(move |socket| forward_states(socket, states, server.stop))
+}
+
+async fn forward_states(
+    mut socket: WebSocket,
+    mut states: broadcast::Receiver<String>,
+    mut stop: watch::Receiver<bool>,
+) {
+    loop {
+        tokio::select! {
+            state = states.recv() => match state {
+                Ok(json) => {
+                    if socket.send(Message::Text(json.into())).await.is_err() {
+                        break;
+                    }
+                }
+                // A slow phone skips reports; the next heartbeat catches it up
+                Err(broadcast::error::RecvError::Lagged(_)) => continue,
+                Err(_) => break,
+            },
+            // The page sends nothing; this only notices it going away
+            incoming = socket.recv() => {
+                if !matches!(incoming, Some(Ok(_))) {
+                    break;
+                }
+            }
+            _ = stop.changed() => break,
+        }
+    }
+}
+
+// The open routes answer the local network; the API also wants the token
+fn guarded<S: Clone + Send + Sync + 'static>(open: Router<S>, api: Router<S>, token: Arc<str>) -> Router<S> {
+    open.merge(api.route_layer(middleware::from_fn_with_state(token, require_token)))
+        .layer(middleware::from_fn(local_network_only))
+}
+
+// A server just told to stop lets go of its port on its next turn, so a restart on
+// the same port retries for a moment. control.rs restarts the same way.
+pub(crate) async fn bind_after_stop(addr: SocketAddr) -> std::io::Result<TcpListener> {
+    let mut attempts = 0;
+    loop {
+        match TcpListener::bind(addr).await {
+            Err(e) if e.kind() == ErrorKind::AddrInUse && attempts < 10 => {
+                attempts += 1;
+                tokio::time::sleep(Duration::from_millis(50)).await;
+            }
+            bound => return bound,
+        }
+    }
+}
+
+// Restarts the server if it's already running (new port or token)
+#[tauri::command]
+pub async fn remote_start(app: AppHandle, port: u16, token: String) -> Result<RemoteStatus, String> {
+    if token.chars().count() < MIN_TOKEN_CHARS {
+        return Err("The pairing token is too short.".into());
+    }
+    if port < 1024 {
+        return Err("Pick a port from 1024 to 65535.".into());
+    }
+
+    let remote = app.state::<RemoteState>();
+    stop(&remote);
+
+    let listener = bind_after_stop(SocketAddr::from((Ipv4Addr::UNSPECIFIED, port)))
+        .await
+        .map_err(|e| format!("Couldn't listen on port {port}: {e}"))?;
+
+    let (shutdown, on_shutdown) = oneshot::channel::<()>();
+    let (stop_tx, stop_rx) = watch::channel(false);
+    let server = Server {
+        app: app.clone(),
+        stop: stop_rx,
+    };
+
+    let open = Router::new().route("/", get(page));
+    let api = Router::new()
+        .route("/api/scenes", get(scenes))
+        .route("/api/command", post(command))
+        .route("/api/state", get(state_feed));
+    let router = guarded(open, api, token.into()).with_state(server);
+
+    tauri::async_runtime::spawn(async move {
+        let served = axum::serve(listener, router.into_make_service_with_connect_info::<SocketAddr>())
+            .with_graceful_shutdown(async {
+                let _ = on_shutdown.await;
+            })
+            .await;
+        if let Err(e) = served {
+            eprintln!("remote control server stopped: {e}");
+        }
+    });
+
+    *remote.running.lock().unwrap() = Some(Running {
+        port,
+        shutdown,
+        stop: stop_tx,
+    });
+    Ok(status(&remote))
+}
+
+#[tauri::command]
+pub fn remote_stop(app: AppHandle) {
+    stop(&app.state::<RemoteState>());
+}
+
+#[tauri::command]
+pub fn remote_status(app: AppHandle) -> RemoteStatus {
+    status(&app.state::<RemoteState>())
+}
+
+// The main window keeps this in step with the scene list in localStorage
+#[tauri::command]
+pub fn remote_set_scenes(app: AppHandle, scenes: Vec<SceneRef>) {
+    *app.state::<RemoteState>().scenes.lock().unwrap() = scenes;
+}
+
+#[cfg(test)]
+mod tests {
+    use super::*;
+    use axum::body::Body;
+    use axum::extract::connect_info::MockConnectInfo;
+    use tower::ServiceExt;
+
+    const TOKEN: &str = "0123456789abcdef0123456789abcdef";
+
+    #[test]
+    fn local_network_means_loopback_private_and_link_local() {
+        for ip in ["127.0.0.1", "10.1.2.3", "172.16.0.9", "192.168.1.20", "169.254.3.4", "::1", "fd12::1", "fe80::1", "::ffff:192.168.1.20"] {
+            assert!(is_local_network(ip.parse().unwrap()), "{ip}");
+        }
+        for ip in ["8.8.8.8", "172.32.0.1", "100.64.0.1", "2001:db8::1", "::ffff:8.8.8.8"] {
+            assert!(!is_local_network(ip.parse().unwrap()), "{ip}");
+        }
+    }
+
+    #[test]
+    fn compares_tokens_exactly() {
+        assert!(same_token(TOKEN, TOKEN));
+        assert!(!same_token("0123456789abcdef0123456789abcdee", TOKEN));
+        assert!(!same_token("0123456789abcdef", TOKEN));
+        assert!(!same_token("", TOKEN));
+    }
+
+    #[test]
+    fn limits_text_length() {
+        let at_limit = Some("a".repeat(MAX_TEXT_CHARS));
+        let over = Some("é".repeat(MAX_TEXT_CHARS + 1));
+        assert!(check_text(&at_limit, &None).is_ok());
+        assert!(check_text(&None, &at_limit).is_ok());
+        assert!(check_text(&over, &None).is_err());
+        assert!(check_text(&None, &over).is_err());
+        assert!(check_text(&None, &None).is_ok());
+    }
+
+    // The real guards around stand-in routes, with the peer a LAN address unless given
+    fn router(peer: [u8; 4]) -> Router {
+        let page = Router::new().route("/", get(|| async { "page" }));
+        let api = Router::new().route("/api/scenes", get(|| async { "[]" }));
+        guarded(page, api, Arc::from(TOKEN)).layer(MockConnectInfo(SocketAddr::from((peer, 50000))))
+    }
+
+    async fn answer(peer: [u8; 4], uri: &str, authorization: Option<&str>) -> StatusCode {
+        let mut request = axum::http::Request::builder().uri(uri);
+        if let Some(value) = authorization {
+            request = request.header(header::AUTHORIZATION, value);
+        }
+        router(peer).oneshot(request.body(Body::empty()).unwrap()).await.unwrap().status()
+    }
+
+    const LAN: [u8; 4] = [192, 168, 1, 20];
+
+    #[tokio::test]
+    async fn api_wants_the_token() {
+        assert_eq!(answer(LAN, "/api/scenes", None).await, StatusCode::UNAUTHORIZED);
+        assert_eq!(answer(LAN, "/api/scenes", Some("Bearer wrong")).await, StatusCode::UNAUTHORIZED);
+        assert_eq!(answer(LAN, "/api/scenes?token=wrong", None).await, StatusCode::UNAUTHORIZED);
+        assert_eq!(answer(LAN, &format!("/api/scenes?token={TOKEN}"), None).await, StatusCode::OK);
+        assert_eq!(answer(LAN, "/api/scenes", Some(&format!("Bearer {TOKEN}"))).await, StatusCode::OK);
+    }
+
+    #[tokio::test]
+    async fn page_is_open_but_only_to_the_local_network() {
+        assert_eq!(answer(LAN, "/", None).await, StatusCode::OK);
+        assert_eq!(answer([127, 0, 0, 1], "/", None).await, StatusCode::OK);
+        assert_eq!(answer([8, 8, 8, 8], "/", None).await, StatusCode::FORBIDDEN);
+        let paired = format!("/api/scenes?token={TOKEN}");
+        assert_eq!(answer([8, 8, 8, 8], &paired, None).await, StatusCode::FORBIDDEN);
+    }
+}
@@ -0,0 +1,132 @@
+// Tray icon (menu bar item on macOS), for running a session without the Settings
+// window. Show / Blank / Flash and the timer go out as the same command envelopes
+// the Settings window sends (src/protocol.ts), to every Student View. The quick
+// message list and the status text live in the webview, so the main window hands
+// them over through set_tray_menu / set_tray_status (src/tray.ts) and applies a
+// picked quick message itself.
+
+use serde::Deserialize;
+use serde_json::{json, Value};
+use tauri::menu::{CheckMenuItem, Menu, MenuBuilder, MenuItem, PredefinedMenuItem, SubmenuBuilder};
+use tauri::tray::TrayIconBuilder;
+use tauri::{AppHandle, Emitter, Runtime};
+
+use crate::protocol;
+
+const TRAY_ID: &str = "attention";
+
+#[derive(Deserialize)]
+pub struct TrayQuickMessage {
+    id: String,
+    label: String,
+}
+
+fn build_menu<R: Runtime>(
+    app: &AppHandle<R>,
+    quick_messages: &[TrayQuickMessage],
+    open_settings_on_launch: bool,
+) -> tauri::Result<Menu<R>> {
+    let mut quick = SubmenuBuilder::new(app, "Quick messages");
+    if quick_messages.is_empty() {
+        quick = quick.item(&MenuItem::with_id(app, "tray:none", "No quick messages", false, None::<&str>)?);
+    }
+    for message in quick_messages {
+        quick = quick.text(format!("tray:quick:{}", message.id), &message.label);
+    }
+
+    let timer = SubmenuBuilder::new(app, "Timer")
+        .text("tray:timerStart", "Start")
+        .text("tray:timerPause", "Pause")
+        .text("tray:timerReset", "Reset")
+        .text("tray:timerSkip", "Skip phase")
+        .text("tray:timerExtend", "+1 min")
+        .build()?;
+
+    let settings_on_launch = CheckMenuItem::with_id(
+        app,
+        "tray:settingsOnLaunch",
+        "Open Settings at Launch",
+        true,
+        open_settings_on_launch,
+        None::<&str>,
+    )?;
+
+    MenuBuilder::new(app)
+        .text("tray:show", "Show Attention")
+        .text("tray:blank", "Blank Screen")
+        .text("tray:flash", "Flash")
+        .separator()
+        .item(&quick.build()?)
+        .item(&timer)
+        .separator()
+        .text("open_settings", "Settings…") // handled with the app menu's item in lib.rs
+        .item(&settings_on_launch)
+        .separator()
+        .item(&PredefinedMenuItem::quit(app, None)?)
+        .build()
+}
+
+// The quick messages arrive once the main window has loaded
+pub fn create<R: Runtime>(app: &AppHandle<R>) -> tauri::Result<()> {
+    let menu = build_menu(app, &[], true)?;
+    let mut tray = TrayIconBuilder::with_id(TRAY_ID)
+        .menu(&menu)
+        .tooltip("Attention")
+        .show_menu_on_left_click(true);
+    if let Some(icon) = app.default_window_icon() {
+        tray = tray.icon(icon.clone());
+    }
+    tray.build(app)?;
+    Ok(())
+}
+
+fn send_command<R: Runtime>(app: &AppHandle<R>, command: Value) {
+    // Nobody waits for the acks; the tooltip shows the result
+    protocol::send_command(app, "tray", command);
+}
+
+// False when the id isn't one of the tray's own items
+pub fn handle_menu_event<R: Runtime>(app: &AppHandle<R>, id: &str) -> bool {
+    let Some(action) = id.strip_prefix("tray:") else {
+        return false;
+    };
+
+    match action {
+        "show" => send_command(app, json!({ "type": "setMode", "mode": "message" })),
+        "blank" => send_command(app, json!({ "type": "setMode", "mode": "blank" })),
+        "flash" | "timerStart" | "timerPause" | "timerReset" | "timerSkip" => {
+            send_command(app, json!({ "type": action }))
+        }
+        "timerExtend" => send_command(app, json!({ "type": "timerExtend", "ms": 60_000 })),
+        // The main window owns the preference and sends the menu back with it
+        "settingsOnLaunch" => {
+            let _ = app.emit_to("main", "tray:settings-on-launch", ());
+        }
+        _ => {
+            if let Some(quick_id) = action.strip_prefix("quick:") {
+                let _ = app.emit_to("main", "tray:quick-message", quick_id);
+            }
+        }
+    }
+    true
+}
+
+#[tauri::command]
+pub fn set_tray_menu<R: Runtime>(
+    app: AppHandle<R>,
+    quick_messages: Vec<TrayQuickMessage>,
+    open_settings_on_launch: bool,
+) -> Result<(), String> {
+    let tray = app.tray_by_id(TRAY_ID).ok_or("no tray icon")?;
+    let menu = build_menu(&app, &quick_messages, open_settings_on_launch).map_err(|e| e.to_string())?;
+    tray.set_menu(Some(menu)).map_err(|e| e.to_string())
+}
+
+// `title` is the text beside the icon in the macOS menu bar; empty hides it
+#[tauri::command]
+pub fn set_tray_status<R: Runtime>(app: AppHandle<R>, tooltip: String, title: String) -> Result<(), String> {
+    let tray = app.tray_by_id(TRAY_ID).ok_or("no tray icon")?;
+    tray.set_tooltip(Some(tooltip)).map_err(|e| e.to_string())?;
+    tray.set_title(if title.is_empty() { None } else { Some(title) })
+        .map_err(|e| e.to_string())
+}
@@ -0,0 +1,192 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import {
+  CONFIG_FORMAT,
+  CONFIG_VERSION,
+  applyImport,
+  buildConfigFile,
+  describeImport,
+  parseConfigFile,
+  type ConfigImport,
+  type ConfigSnapshot,
+} from "./configFile";
+import type { QuickMessage } from "./quickMessages";
+import { newScheduledAction } from "./scheduledActions";
+import { defaultSettings } from "./storage";
+
+const message = (id: string, label: string): QuickMessage => ({
+  id,
+  label,
+  category: "General",
+  titleText: "",
+  subtitleText: label,
+  bg: "",
+  text: "",
+  subtitleColor: "",
+  qrText: "",
+});
+
+const snapshot = (): ConfigSnapshot => ({
+  settings: defaultSettings(),
+  scenes: [],
+  quickMessages: [message("chat", "CHAT"), message("mic", "MIC")],
+  palettes: [],
+  images: [],
+  studentViews: [],
+  scheduledActions: [],
+  hotkeys: { show: "CommandOrControl+Alt+S", blank: "CommandOrControl+Alt+B" },
+  collapsed: { timer: true },
+});
+
+const file = (sections: Record<string, unknown>) => ({ format: CONFIG_FORMAT, version: CONFIG_VERSION, ...sections });
+
+function parsed(sections: Record<string, unknown>): ConfigImport {
+  const result = parseConfigFile(file(sections), defaultSettings());
+  if (!result.ok) throw new Error(result.error);
+  return result.value;
+}
+
+function parseError(raw: unknown): string {
+  const result = parseConfigFile(raw, defaultSettings());
+  if (result.ok) throw new Error("expected the file to be rejected");
+  return result.error;
+}
+
+describe("parseConfigFile", () => {
+  it("reads back what it exports", () => {
+    const current = snapshot();
+    const result = parseConfigFile(JSON.parse(JSON.stringify(buildConfigFile(current))), defaultSettings());
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(applyImport(snapshot(), result.value, "replace")).toEqual(current);
+  });
+
+  it("leaves out sections the file doesn't have", () => {
+    const value = parsed({ quickMessages: [message("hand", "HAND")] });
+    expect(value.quickMessages).toHaveLength(1);
+    expect(value.settings).toBeNull();
+    expect(value.scenes).toBeNull();
+    expect(value.hotkeys).toBeNull();
+  });
+
+  it("keeps only the settings fields the file sets", () => {
+    const value = parsed({ settings: { bg: "navy", titleText: "QUIET" } });
+    expect(value.settings).toEqual({ bg: "navy", titleText: "QUIET" });
+  });
+
+  it("reports unknown keys instead of failing", () => {
+    const value = parsed({ remote: {}, settings: { sparkle: true } });
+    expect(value.ignored).toEqual(["remote", "settings.sparkle"]);
+  });
+
+  it("reads version 1 files", () => {
+    const value = parsed({ version: 1, settings: { bg: "navy" } });
+    expect(value.settings).toEqual({ bg: "navy" });
+  });
+
+  it("rejects other documents, newer versions and bad sections", () => {
+    expect(parseError([])).toBe("not a JSON object");
+    expect(parseError({ format: "something-else", version: 1 })).toContain("not an AttentionScreen config");
+    expect(parseError(file({ version: 1.5 }))).toContain("version: expected a whole number");
+    expect(parseError(file({ version: CONFIG_VERSION + 1 }))).toContain("newer version");
+    expect(parseError(file({ settings: { timerSec: 75 } }))).toContain("settings.timerSec");
+    expect(parseError(file({ quickMessages: [message("a", "A"), message("a", "B")] }))).toBe(
+      'quickMessages: duplicate id "a"'
+    );
+    const svg = { id: "x", name: "X", dataUrl: "data:image/svg+xml;base64,PHN2Zz4=" };
+    expect(parseError(file({ images: [svg] }))).toContain("images[0].dataUrl");
+    expect(parseError(file({ scheduledActions: [{ ...newScheduledAction(), time: "9:00" }] }))).toContain(
+      "scheduledActions[0].time"
+    );
+    expect(parseError(file({ hotkeys: { show: "Hyper+S" } }))).toContain("hotkeys.show");
+    expect(parseError(file({ collapsed: { timer: "yes" } }))).toBe("collapsed.timer: expected boolean");
+  });
+
+  it("fills in settings a Student View was saved without", () => {
+    const { qrText: _, ...older } = defaultSettings();
+    const value = parsed({ studentViews: [{ label: "student-hall", name: "Hall", settings: older }] });
+    expect(value.studentViews?.[0].settings).toEqual(defaultSettings());
+    expect(parseError(file({ studentViews: [{ label: "hall", name: "Hall", settings: older }] }))).toContain(
+      "studentViews[0].label"
+    );
+  });
+});
+
+describe("applyImport", () => {
+  it("merges lists by id, replacing entries in place and appending new ones", () => {
+    const incoming = parsed({ quickMessages: [message("mic", "MUTE"), message("hand", "HAND")] });
+    const next = applyImport(snapshot(), incoming, "merge");
+    expect(next.quickMessages.map((m) => m.label)).toEqual(["CHAT", "MUTE", "HAND"]);
+  });
+
+  it("replaces whole lists", () => {
+    const incoming = parsed({ quickMessages: [message("hand", "HAND")] });
+    const next = applyImport(snapshot(), incoming, "replace");
+    expect(next.quickMessages.map((m) => m.id)).toEqual(["hand"]);
+  });
+
+  it("lets settings fields in the file win either way", () => {
+    const incoming = parsed({ settings: { titleText: "QUIET" } });
+    for (const strategy of ["merge", "replace"] as const) {
+      const next = applyImport(snapshot(), incoming, strategy);
+      expect(next.settings).toEqual({ ...defaultSettings(), titleText: "QUIET" });
+    }
+  });
+
+  it("brings images along with the text that shows them", () => {
+    const image = { id: "seat", name: "Seating", dataUrl: "data:image/png;base64,iVBORw0KGgo=" };
+    const incoming = parsed({ settings: { subtitleText: "[image:seat]" }, images: [image] });
+    const next = applyImport(snapshot(), incoming, "merge");
+    expect(next.images).toEqual([image]);
+    expect(describeImport(snapshot(), next, [])).toEqual(["Settings: subtitleText", "Images: 1 added"]);
+  });
+
+  it("merges hotkeys and card layout by key", () => {
+    const incoming = parsed({ hotkeys: { blank: "F8" }, collapsed: { scenes: true } });
+    const merged = applyImport(snapshot(), incoming, "merge");
+    expect(merged.hotkeys).toEqual({ show: "CommandOrControl+Alt+S", blank: "F8" });
+    expect(merged.collapsed).toEqual({ timer: true, scenes: true });
+    const replaced = applyImport(snapshot(), incoming, "replace");
+    expect(replaced.hotkeys).toEqual({ blank: "F8" });
+    expect(replaced.collapsed).toEqual({ scenes: true });
+  });
+
+  it("merges Student Views by label", () => {
+    const current = {
+      ...snapshot(),
+      studentViews: [{ label: "student-hall", name: "Hall", settings: defaultSettings() }],
+    };
+    const incoming = parsed({
+      studentViews: [
+        { label: "student-hall", name: "Hallway", settings: defaultSettings() },
+        { label: "student-lab", name: "Lab", settings: defaultSettings() },
+      ],
+    });
+    const next = applyImport(current, incoming, "merge");
+    expect(next.studentViews.map((v) => v.name)).toEqual(["Hallway", "Lab"]);
+  });
+});
+
+describe("describeImport", () => {
+  it("lists what would change", () => {
+    const before = snapshot();
+    const incoming = parsed({
+      settings: { titleText: "QUIET" },
+      quickMessages: [message("hand", "HAND")],
+      hotkeys: { show: "F9" },
+      collapsed: { timer: false },
+    });
+    const after = applyImport(before, incoming, "replace");
+    expect(describeImport(before, after, ["remote"])).toEqual([
+      "Settings: titleText",
+      "Quick messages: 1 added, 2 removed",
+      "Hotkeys: 2 shortcuts change",
+      "Card layout: 1 card open or close",
+      "Ignored: remote",
+    ]);
+  });
+
+  it("says so when nothing would", () => {
+    const before = snapshot();
+    expect(describeImport(before, applyImport(before, parsed({}), "merge"), [])).toEqual(["Nothing would change."]);
+  });
+});
@@ -0,0 +1,370 @@
+// src/configFile.ts
+// The whole configuration as one versioned JSON document, for sharing a standard
+// setup between machines. Format is documented in the README ("Backup & sharing").
+//
+// Every section is optional on import. Settings fields in the file always win;
+// the strategy only decides what happens to lists (scenes, quick messages,
+// palettes, images, extra Student Views, scheduled actions), hotkeys and card
+// layout: "merge" combines by id (a view by its label), "replace" swaps the
+// whole section.
+//
+// Version 2 added images, so rich text that shows one still does on the other
+// machine, the extra Student Views with their own settings (`settings` is always
+// the main Student View's), the scheduled actions and the hotkeys. Hotkeys merge
+// by action, like the card layout by card.
+//
+// Left out on purpose: the remote control (src/remote.ts) and the control socket
+// (src/control.ts). Their tokens belong to this machine, and a shared file
+// shouldn't open a port on another; each machine turns them on in its own Settings.
+
+import {
+  isRecord,
+  validateList,
+  validateSettings,
+  type AppSettings,
+  type ParseResult,
+} from "./protocol";
+import { MAX_PALETTES, validatePalette, type CustomPalette } from "./customPalettes";
+import { validateHotkeys, type HotkeyMap } from "./hotkeys";
+import { MAX_IMAGES, validateImage, type StoredImage } from "./images";
+import { MAX_QUICK_MESSAGES, validateQuickMessage, type QuickMessage } from "./quickMessages";
+import { MAX_SCENES, validateScene, type Scene } from "./scenes";
+import { MAX_SCHEDULED_ACTIONS, validateScheduledAction, type ScheduledAction } from "./scheduledActions";
+import { DEFAULT_SETTINGS } from "./storage";
+import { MAX_EXTRA_VIEWS, validateStudentView, type StudentView } from "./studentViews";
+
+export const CONFIG_FORMAT = "attentionscreen-config";
+export const CONFIG_VERSION = 2;
+
+const COLLAPSED_PREFIX = "ui:collapsed:";
+
+export type ImportStrategy = "merge" | "replace";
+
+export type ExportedView = StudentView & { settings: AppSettings };
+
+export type ConfigSnapshot = {
+  settings: AppSettings;
+  scenes: Scene[];
+  quickMessages: QuickMessage[];
+  palettes: CustomPalette[];
+  images: StoredImage[];
+  studentViews: ExportedView[];
+  scheduledActions: ScheduledAction[];
+  hotkeys: HotkeyMap;
+  // card section -> collapsed
+  collapsed: Record<string, boolean>;
+};
+
+export type ConfigFile = ConfigSnapshot & {
+  format: typeof CONFIG_FORMAT;
+  version: number;
+  exportedAt: string;
+};
+
+// A validated import; sections missing from the file are null
+export type ConfigImport = {
+  settings: Partial<AppSettings> | null;
+  scenes: Scene[] | null;
+  quickMessages: QuickMessage[] | null;
+  palettes: CustomPalette[] | null;
+  images: StoredImage[] | null;
+  studentViews: ExportedView[] | null;
+  scheduledActions: ScheduledAction[] | null;
+  hotkeys: HotkeyMap | null;
+  collapsed: Record<string, boolean> | null;
+  // keys we didn't recognise, reported in the preview rather than rejected
+  ignored: string[];
+};
+
+export function readCollapsed(): Record<string, boolean> {
+  const collapsed: Record<string, boolean> = {};
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key?.startsWith(COLLAPSED_PREFIX)) continue;
+    collapsed[key.slice(COLLAPSED_PREFIX.length)] = localStorage.getItem(key) === "1";
+  }
+  return collapsed;
+}
+
+export function writeCollapsed(collapsed: Record<string, boolean>) {
+  for (const [section, value] of Object.entries(collapsed)) {
+    localStorage.setItem(`${COLLAPSED_PREFIX}${section}`, value ? "1" : "0");
+  }
+}
+
+export function buildConfigFile(snapshot: ConfigSnapshot): ConfigFile {
+  return {
+    format: CONFIG_FORMAT,
+    version: CONFIG_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...snapshot,
+  };
+}
+
+// What identifies an entry of a list section
+const byId = (item: { id: string }) => item.id;
+const byLabel = (view: StudentView) => view.label;
+
+function uniqueIds<T>(items: T[], key: string, idOf: (item: T) => string): ParseResult<T[]> {
+  const seen = new Set<string>();
+  for (const item of items) {
+    const id = idOf(item);
+    if (seen.has(id)) return { ok: false, error: `${key}: duplicate id ${JSON.stringify(id)}` };
+    seen.add(id);
+  }
+  return { ok: true, value: items };
+}
+
+// Settings saved before a field existed take its default, as in scenes
+function validateExportedView(raw: unknown, index: number): ParseResult<ExportedView> {
+  const view = validateStudentView(raw, index);
+  if (!view.ok) return view;
+  const settings = (raw as Record<string, unknown>).settings;
+  const parsed = validateSettings(isRecord(settings) ? { ...DEFAULT_SETTINGS, ...settings } : settings);
+  if (!parsed.ok) return { ok: false, error: `studentViews[${index}].settings: ${parsed.error}` };
+  return { ok: true, value: { ...view.value, settings: parsed.value } };
+}
+
+// `base` fills in settings the file leaves out, so each field is checked in context
+export function parseConfigFile(raw: unknown, base: AppSettings): ParseResult<ConfigImport> {
+  if (!isRecord(raw)) return { ok: false, error: "not a JSON object" };
+  if (raw.format !== CONFIG_FORMAT) {
+    return { ok: false, error: `not an AttentionScreen config (format ${JSON.stringify(raw.format)})` };
+  }
+  if (typeof raw.version !== "number" || !Number.isInteger(raw.version) || raw.version < 1) {
+    return { ok: false, error: `version: expected a whole number, got ${JSON.stringify(raw.version)}` };
+  }
+  if (raw.version > CONFIG_VERSION) {
+    return { ok: false, error: `made by a newer version of the app (config v${raw.version})` };
+  }
+
+  const known = new Set([
+    "format",
+    "version",
+    "exportedAt",
+    "settings",
+    "scenes",
+    "quickMessages",
+    "palettes",
+    "images",
+    "studentViews",
+    "scheduledActions",
+    "hotkeys",
+    "collapsed",
+  ]);
+  const ignored = Object.keys(raw).filter((k) => !known.has(k));
+
+  let settings: Partial<AppSettings> | null = null;
+  if (raw.settings !== undefined) {
+    if (!isRecord(raw.settings)) return { ok: false, error: "settings: not an object" };
+    const keys = Object.keys(raw.settings);
+    const isSettingKey = (k: string): k is keyof AppSettings => Object.prototype.hasOwnProperty.call(base, k);
+    const settingKeys = keys.filter(isSettingKey);
+    ignored.push(...keys.filter((k) => !isSettingKey(k)).map((k) => `settings.${k}`));
+
+    const merged = validateSettings({ ...base, ...raw.settings });
+    if (!merged.ok) return { ok: false, error: `settings.${merged.error}` };
+    settings = Object.fromEntries(settingKeys.map((k) => [k, merged.value[k]])) as Partial<AppSettings>;
+  }
+
+  let scenes: Scene[] | null = null;
+  if (raw.scenes !== undefined) {
+    const parsed = validateList(raw.scenes, "scenes", MAX_SCENES, validateScene);
+    if (!parsed.ok) return parsed;
+    const unique = uniqueIds(parsed.value, "scenes", byId);
+    if (!unique.ok) return unique;
+    scenes = unique.value;
+  }
+
+  let quickMessages: QuickMessage[] | null = null;
+  if (raw.quickMessages !== undefined) {
+    const parsed = validateList(raw.quickMessages, "quickMessages", MAX_QUICK_MESSAGES, validateQuickMessage);
+    if (!parsed.ok) return parsed;
+    const unique = uniqueIds(parsed.value, "quickMessages", byId);
+    if (!unique.ok) return unique;
+    quickMessages = unique.value;
+  }
+
+  let palettes: CustomPalette[] | null = null;
+  if (raw.palettes !== undefined) {
+    const parsed = validateList(raw.palettes, "palettes", MAX_PALETTES, validatePalette);
+    if (!parsed.ok) return parsed;
+    const unique = uniqueIds(parsed.value, "palettes", byId);
+    if (!unique.ok) return unique;
+    palettes = unique.value;
+  }
+
+  let images: StoredImage[] | null = null;
+  if (raw.images !== undefined) {
+    const parsed = validateList(raw.images, "images", MAX_IMAGES, validateImage);
+    if (!parsed.ok) return parsed;
+    const unique = uniqueIds(parsed.value, "images", byId);
+    if (!unique.ok) return unique;
+    images = unique.value;
+  }
+
+  let studentViews: ExportedView[] | null = null;
+  if (raw.studentViews !== undefined) {
+    const parsed = validateList(raw.studentViews, "studentViews", MAX_EXTRA_VIEWS, validateExportedView);
+    if (!parsed.ok) return parsed;
+    const unique = uniqueIds(parsed.value, "studentViews", byLabel);
+    if (!unique.ok) return unique;
+    studentViews = unique.value;
+  }
+
+  let scheduledActions: ScheduledAction[] | null = null;
+  if (raw.scheduledActions !== undefined) {
+    const parsed = validateList(
+      raw.scheduledActions,
+      "scheduledActions",
+      MAX_SCHEDULED_ACTIONS,
+      validateScheduledAction
+    );
+    if (!parsed.ok) return parsed;
+    const unique = uniqueIds(parsed.value, "scheduledActions", byId);
+    if (!unique.ok) return unique;
+    scheduledActions = unique.value;
+  }
+
+  let hotkeys: HotkeyMap | null = null;
+  if (raw.hotkeys !== undefined) {
+    const parsed = validateHotkeys(raw.hotkeys);
+    if (!parsed.ok) return parsed;
+    hotkeys = parsed.value;
+  }
+
+  let collapsed: Record<string, boolean> | null = null;
+  if (raw.collapsed !== undefined) {
+    if (!isRecord(raw.collapsed)) return { ok: false, error: "collapsed: not an object" };
+    for (const [section, value] of Object.entries(raw.collapsed)) {
+      if (typeof value !== "boolean") return { ok: false, error: `collapsed.${section}: expected boolean` };
+    }
+    collapsed = raw.collapsed as Record<string, boolean>;
+  }
+
+  return {
+    ok: true,
+    value: {
+      settings,
+      scenes,
+      quickMessages,
+      palettes,
+      images,
+      studentViews,
+      scheduledActions,
+      hotkeys,
+      collapsed,
+      ignored,
+    },
+  };
+}
+
+// Incoming entries replace same-id entries in place; new ones go on the end
+function mergeById<T>(current: T[], incoming: T[], max: number, idOf: (item: T) => string): T[] {
+  const byIncomingId = new Map(incoming.map((item) => [idOf(item), item]));
+  const merged = current.map((item) => byIncomingId.get(idOf(item)) ?? item);
+  const existing = new Set(current.map(idOf));
+  merged.push(...incoming.filter((item) => !existing.has(idOf(item))));
+  return merged.slice(0, max);
+}
+
+export function applyImport(
+  current: ConfigSnapshot,
+  incoming: ConfigImport,
+  strategy: ImportStrategy
+): ConfigSnapshot {
+  const replace = strategy === "replace";
+  return {
+    settings: { ...current.settings, ...incoming.settings },
+    scenes: !incoming.scenes
+      ? current.scenes
+      : replace
+        ? incoming.scenes
+        : mergeById(current.scenes, incoming.scenes, MAX_SCENES, byId),
+    quickMessages: !incoming.quickMessages
+      ? current.quickMessages
+      : replace
+        ? incoming.quickMessages
+        : mergeById(current.quickMessages, incoming.quickMessages, MAX_QUICK_MESSAGES, byId),
+    palettes: !incoming.palettes
+      ? current.palettes
+      : replace
+        ? incoming.palettes
+        : mergeById(current.palettes, incoming.palettes, MAX_PALETTES, byId),
+    images: !incoming.images
+      ? current.images
+      : replace
+        ? incoming.images
+        : mergeById(current.images, incoming.images, MAX_IMAGES, byId),
+    studentViews: !incoming.studentViews
+      ? current.studentViews
+      : replace
+        ? incoming.studentViews
+        : mergeById(current.studentViews, incoming.studentViews, MAX_EXTRA_VIEWS, byLabel),
+    scheduledActions: !incoming.scheduledActions
+      ? current.scheduledActions
+      : replace
+        ? incoming.scheduledActions
+        : mergeById(current.scheduledActions, incoming.scheduledActions, MAX_SCHEDULED_ACTIONS, byId),
+    hotkeys: !incoming.hotkeys
+      ? current.hotkeys
+      : replace
+        ? incoming.hotkeys
+        : { ...current.hotkeys, ...incoming.hotkeys },
+    collapsed: !incoming.collapsed
+      ? current.collapsed
+      : replace
+        ? incoming.collapsed
+        : { ...current.collapsed, ...incoming.collapsed },
+  };
+}
+
+function describeList<T>(label: string, before: T[], after: T[], idOf: (item: T) => string): string | null {
+  const old = new Map(before.map((item) => [idOf(item), JSON.stringify(item)]));
+  const kept = new Set(after.map(idOf));
+  const added = after.filter((item) => !old.has(idOf(item))).length;
+  const updated = after.filter((item) => old.has(idOf(item)) && old.get(idOf(item)) !== JSON.stringify(item)).length;
+  const removed = before.filter((item) => !kept.has(idOf(item))).length;
+
+  const parts = [
+    added && `${added} added`,
+    updated && `${updated} updated`,
+    removed && `${removed} removed`,
+  ].filter(Boolean);
+  return parts.length ? `${label}: ${parts.join(", ")}` : null;
+}
+
+// Human-readable preview lines for the import panel
+export function describeImport(before: ConfigSnapshot, after: ConfigSnapshot, ignored: string[]): string[] {
+  const lines: string[] = [];
+
+  const changed = (Object.keys(after.settings) as (keyof AppSettings)[]).filter(
+    (k) => JSON.stringify(before.settings[k]) !== JSON.stringify(after.settings[k])
+  );
+  if (changed.length) lines.push(`Settings: ${changed.join(", ")}`);
+
+  const scenes = describeList("Scenes", before.scenes, after.scenes, byId);
+  if (scenes) lines.push(scenes);
+  const quick = describeList("Quick messages", before.quickMessages, after.quickMessages, byId);
+  if (quick) lines.push(quick);
+  const palettes = describeList("Palettes", before.palettes, after.palettes, byId);
+  if (palettes) lines.push(palettes);
+  const images = describeList("Images", before.images, after.images, byId);
+  if (images) lines.push(images);
+  const views = describeList("Extra Student Views", before.studentViews, after.studentViews, byLabel);
+  if (views) lines.push(views);
+  const actions = describeList("Scheduled actions", before.scheduledActions, after.scheduledActions, byId);
+  if (actions) lines.push(actions);
+
+  const actionIds = new Set([...Object.keys(before.hotkeys), ...Object.keys(after.hotkeys)]);
+  const rebound = [...actionIds].filter((k) => before.hotkeys[k] !== after.hotkeys[k]).length;
+  if (rebound) lines.push(`Hotkeys: ${rebound} shortcut${rebound === 1 ? "" : "s"} change`);
+
+  const sections = new Set([...Object.keys(before.collapsed), ...Object.keys(after.collapsed)]);
+  const layout = [...sections].filter((k) => !!before.collapsed[k] !== !!after.collapsed[k]).length;
+  if (layout) lines.push(`Card layout: ${layout} card${layout === 1 ? "" : "s"} open or close`);
+
+  if (lines.length === 0) lines.push("Nothing would change.");
+  if (ignored.length) lines.push(`Ignored: ${ignored.join(", ")}`);
+  return lines;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { contrastBadge, contrastRatio, isContrastLevel, readableOn } from "./contrast";
+import { PCC } from "./palette";
+
+describe("contrastRatio", () => {
+  it("runs from 1 to 21 either way round", () => {
+    expect(contrastRatio("black", "white")).toBeCloseTo(21, 5);
+    expect(contrastRatio("white", "black")).toBeCloseTo(21, 5);
+    expect(contrastRatio("navy", "navy")).toBe(1);
+  });
+
+  it("matches the WCAG reference values", () => {
+    // #767676 is the lightest gray that passes AA on white
+    expect(contrastRatio("#767676", "white")).toBeCloseTo(4.54, 2);
+    expect(contrastRatio("#777777", "#ffffff")).toBeLessThan(4.5);
+  });
+
+  it("reads palette names, short hex and long hex alike", () => {
+    expect(contrastRatio("#fff", "navy")).toBe(contrastRatio("white", PCC.navy.hex));
+  });
+
+  it("treats unknown colors as failing", () => {
+    expect(contrastRatio("sparkly", "white")).toBe(1);
+    expect(contrastRatio("black", "")).toBe(1);
+  });
+});
+
+describe("contrastBadge", () => {
+  it("grades against the normal or large text thresholds", () => {
+    expect(contrastBadge(21, "aa")).toBe("AAA 21.0");
+    expect(contrastBadge(4.6, "aa")).toBe("AA 4.6");
+    expect(contrastBadge(4.6, "aa-large")).toBe("AAA 4.6");
+    expect(contrastBadge(3.2, "aaa-large")).toBe("AA 3.2");
+    expect(contrastBadge(2, "aa-large")).toBe("Low 2.0");
+  });
+});
+
+describe("readableOn", () => {
+  it("keeps the colors that pass, in order, never the background itself", () => {
+    expect(readableOn("white", "aa", ["white", "black", "#eeeeee", "navy"])).toEqual(["black", "navy"]);
+  });
+
+  it("raises the bar with the level", () => {
+    const candidates = ["black", "#767676"];
+    expect(readableOn("white", "aa", candidates)).toEqual(["black", "#767676"]);
+    expect(readableOn("white", "aaa", candidates)).toEqual(["black"]);
+  });
+
+  it("offers the best color when none pass", () => {
+    expect(readableOn("white", "aaa", ["#eeeeee", "#dddddd", "white"])).toEqual(["#dddddd"]);
+    expect(readableOn("white", "aaa", ["white"])).toEqual([]);
+  });
+});
+
+it("knows the contrast levels", () => {
+  expect(isContrastLevel("aaa-large")).toBe(true);
+  expect(isContrastLevel("AAA")).toBe(false);
+  expect(isContrastLevel("toString")).toBe(false);
+});
@@ -0,0 +1,63 @@
+// src/contrast.ts
+// WCAG 2.x contrast between palette colors, computed from their hex values.
+// Decides which text colors the Settings window offers on a given background.
+
+import { colorHex, PCC } from "./palette";
+
+export type ContrastLevel = "aa-large" | "aa" | "aaa-large" | "aaa";
+
+export const CONTRAST_LEVELS: Record<ContrastLevel, { label: string; ratio: number }> = {
+  "aa-large": { label: "AA, large text (3:1)", ratio: 3 },
+  aa: { label: "AA (4.5:1)", ratio: 4.5 },
+  "aaa-large": { label: "AAA, large text (4.5:1)", ratio: 4.5 },
+  aaa: { label: "AAA (7:1)", ratio: 7 },
+};
+
+// The Student View only shows large text, so the large-text threshold is the baseline
+export const DEFAULT_CONTRAST_LEVEL: ContrastLevel = "aa-large";
+
+export function isContrastLevel(v: unknown): v is ContrastLevel {
+  return typeof v === "string" && Object.prototype.hasOwnProperty.call(CONTRAST_LEVELS, v);
+}
+
+function channel(c: number): number {
+  const s = c / 255;
+  return s <= 0.04045 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+}
+
+function luminance(hex: string): number {
+  const n = parseInt(hex.slice(1), 16);
+  const r = (n >> 16) & 0xff;
+  const g = (n >> 8) & 0xff;
+  const b = n & 0xff;
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+// 1–21; unknown colors count as 1 so they never pass a threshold
+export function contrastRatio(a: string, b: string): number {
+  const ha = colorHex(a);
+  const hb = colorHex(b);
+  if (!ha || !hb) return 1;
+  const la = luminance(ha);
+  const lb = luminance(hb);
+  return (Math.max(la, lb) + 0.05) / (Math.min(la, lb) + 0.05);
+}
+
+// Short grade for option badges, judged as large or normal text to match `level`
+export function contrastBadge(ratio: number, level: ContrastLevel): string {
+  const large = level.endsWith("-large");
+  const grade = ratio >= (large ? 4.5 : 7) ? "AAA" : ratio >= (large ? 3 : 4.5) ? "AA" : "Low";
+  return `${grade} ${ratio.toFixed(1)}`;
+}
+
+// Text colors that meet `level` on `bg`, in palette order. If none do, the
+// single best option is returned so the select is never empty.
+export function readableOn(bg: string, level: ContrastLevel, candidates = Object.keys(PCC)): string[] {
+  const min = CONTRAST_LEVELS[level].ratio;
+  const others = candidates.filter((c) => c !== bg);
+  const passing = others.filter((c) => contrastRatio(bg, c) >= min);
+  if (passing.length || others.length === 0) return passing;
+
+  const best = others.reduce((a, b) => (contrastRatio(bg, b) > contrastRatio(bg, a) ? b : a));
+  return [best];
+}
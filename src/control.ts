@@ -0,0 +1,63 @@
+// src/control.ts
+// The line-based control protocol for button boxes, foot pedals and scripts
+// (src-tauri/src/control.rs). Over stdin it's always on; the socket on
+// 127.0.0.1 is opt-in and each connection starts with AUTH <token>. Settings
+// turns it on and off, the main window opens it at launch.
+
+import { invoke } from "@tauri-apps/api/core";
+import { isRecord } from "./protocol";
+import { isListenPort, newPairingToken } from "./remote";
+
+const CONTROL_KEY = "control";
+
+export const DEFAULT_CONTROL_PORT = 8766;
+
+export type ControlConfig = {
+  enabled: boolean;
+  port: number;
+  // Web pages can reach 127.0.0.1 too, so the socket wants this first
+  token: string;
+};
+
+export type ControlStatus = { running: boolean; port: number };
+
+// The first read creates the token, so scripts keep working until the proctor replaces it
+export function readControlConfig(): ControlConfig {
+  let raw: unknown = null;
+  try {
+    raw = JSON.parse(localStorage.getItem(CONTROL_KEY) ?? "null");
+  } catch {
+    // fall through to a fresh config
+  }
+  if (isRecord(raw) && typeof raw.token === "string" && /^[0-9a-f]{32}$/.test(raw.token)) {
+    return {
+      enabled: raw.enabled === true,
+      port: isListenPort(raw.port) ? raw.port : DEFAULT_CONTROL_PORT,
+      token: raw.token,
+    };
+  }
+  const config = {
+    enabled: false,
+    port: isRecord(raw) && isListenPort(raw.port) ? raw.port : DEFAULT_CONTROL_PORT,
+    token: newPairingToken(),
+  };
+  writeControlConfig(config);
+  return config;
+}
+
+export function writeControlConfig(config: ControlConfig) {
+  localStorage.setItem(CONTROL_KEY, JSON.stringify(config));
+}
+
+// Reopens the socket when it's already open
+export function startControl(config: ControlConfig): Promise<ControlStatus> {
+  return invoke<ControlStatus>("control_start", { port: config.port, token: config.token });
+}
+
+export function stopControl(): Promise<void> {
+  return invoke("control_stop");
+}
+
+export function controlStatus(): Promise<ControlStatus> {
+  return invoke<ControlStatus>("control_status");
+}
@@ -0,0 +1,96 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  MAX_PALETTES,
+  MAX_SWATCHES,
+  PCC_PALETTE_ID,
+  colorLabel,
+  paletteOptions,
+  readPalettes,
+  validatePalette,
+  writePalettes,
+  type CustomPalette,
+} from "./customPalettes";
+import { PCC } from "./palette";
+
+const palette = (id: string, swatches = [{ name: "Crimson", hex: "#a6192e" }]): CustomPalette => ({
+  id,
+  name: `Palette ${id}`,
+  swatches,
+});
+
+beforeEach(() => localStorage.clear());
+
+describe("validatePalette", () => {
+  it("accepts named swatches and lowercases their hex", () => {
+    const parsed = validatePalette(palette("school", [{ name: "Gold", hex: "#FFC72C" }]), 0);
+    expect(parsed).toEqual({ ok: true, value: palette("school", [{ name: "Gold", hex: "#ffc72c" }]) });
+  });
+
+  it("keeps the PCC id for the built-in palette", () => {
+    expect(validatePalette(palette(PCC_PALETTE_ID), 1)).toEqual({
+      ok: false,
+      error: 'palettes[1].id: expected a string other than "pcc"',
+    });
+  });
+
+  it("wants full #rrggbb swatches, at most MAX_SWATCHES", () => {
+    expect(validatePalette(palette("a", [{ name: "White", hex: "#fff" }]), 0)).toEqual({
+      ok: false,
+      error: 'palettes[0].swatches[0].hex: expected "#rrggbb"',
+    });
+    expect(validatePalette(palette("a", [{ name: "Navy", hex: "navy" }]), 0).ok).toBe(false);
+
+    const full = Array.from({ length: MAX_SWATCHES }, () => ({ name: "", hex: "#000000" }));
+    expect(validatePalette(palette("a", full), 0).ok).toBe(true);
+    expect(validatePalette(palette("a", [...full, full[0]]), 0)).toEqual({
+      ok: false,
+      error: `palettes[0].swatches: expected an array of at most ${MAX_SWATCHES}`,
+    });
+  });
+});
+
+describe("readPalettes", () => {
+  it("reads back what was written, dropping broken palettes", () => {
+    writePalettes([palette("a"), palette("b")]);
+    expect(readPalettes()).toEqual([palette("a"), palette("b")]);
+    localStorage.setItem("palettes", JSON.stringify([palette("a"), palette(PCC_PALETTE_ID), { id: "c" }]));
+    expect(readPalettes()).toEqual([palette("a")]);
+  });
+
+  it("starts empty and survives unreadable storage", () => {
+    expect(readPalettes()).toEqual([]);
+    localStorage.setItem("palettes", "{not json");
+    expect(readPalettes()).toEqual([]);
+  });
+
+  it("keeps at most MAX_PALETTES", () => {
+    writePalettes(Array.from({ length: MAX_PALETTES + 1 }, (_, i) => palette(String(i))));
+    expect(readPalettes()).toHaveLength(MAX_PALETTES);
+  });
+});
+
+describe("paletteOptions", () => {
+  it("offers a custom palette's swatches, unnamed ones by their hex", () => {
+    const custom = palette("a", [
+      { name: "Crimson", hex: "#a6192e" },
+      { name: "", hex: "#ffc72c" },
+    ]);
+    expect(paletteOptions([custom], "a")).toEqual([
+      { value: "#a6192e", label: "Crimson" },
+      { value: "#ffc72c", label: "#FFC72C" },
+    ]);
+  });
+
+  it("falls back to PCC for an unknown id", () => {
+    const options = paletteOptions([palette("a")], "gone");
+    expect(options.map((o) => o.value)).toEqual(Object.keys(PCC));
+    expect(paletteOptions([], PCC_PALETTE_ID)).toEqual(options);
+  });
+});
+
+it("labels colors from any palette", () => {
+  expect(colorLabel([], "navy")).toBe("PCC Navy");
+  expect(colorLabel([palette("a")], "#A6192E")).toBe("Crimson");
+  expect(colorLabel([palette("a")], "#123456")).toBe("#123456");
+});
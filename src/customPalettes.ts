@@ -0,0 +1,100 @@
+// src/customPalettes.ts
+// User-defined palettes of named swatches, offered in place of the PCC palette.
+// Swatches go over the wire as literal "#rrggbb" values, so the Student View and
+// anything stored (scenes, quick messages) need no knowledge of palettes.
+
+import { PCC } from "./palette";
+import { isRecord, type ParseResult } from "./protocol";
+
+const PALETTES_KEY = "palettes";
+const ACTIVE_PALETTE_KEY = "ui:activePalette";
+
+export const PCC_PALETTE_ID = "pcc";
+export const MAX_PALETTES = 12;
+export const MAX_SWATCHES = 24;
+
+const SWATCH_HEX_RE = /^#[0-9a-f]{6}$/i;
+
+export type Swatch = { name: string; hex: string };
+
+export type CustomPalette = {
+  id: string;
+  name: string;
+  swatches: Swatch[];
+};
+
+// What a color select shows: a value to send and a label to read
+export type ColorOption = { value: string; label: string };
+
+export function newPaletteId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function validatePalette(raw: unknown, index: number): ParseResult<CustomPalette> {
+  const where = `palettes[${index}]`;
+  if (!isRecord(raw)) return { ok: false, error: `${where}: not an object` };
+  if (typeof raw.id !== "string" || raw.id === PCC_PALETTE_ID) {
+    return { ok: false, error: `${where}.id: expected a string other than "${PCC_PALETTE_ID}"` };
+  }
+  if (typeof raw.name !== "string") return { ok: false, error: `${where}.name: expected string` };
+  if (!Array.isArray(raw.swatches) || raw.swatches.length > MAX_SWATCHES) {
+    return { ok: false, error: `${where}.swatches: expected an array of at most ${MAX_SWATCHES}` };
+  }
+
+  const swatches: Swatch[] = [];
+  for (const [i, swatch] of raw.swatches.entries()) {
+    if (!isRecord(swatch) || typeof swatch.name !== "string") {
+      return { ok: false, error: `${where}.swatches[${i}].name: expected string` };
+    }
+    if (typeof swatch.hex !== "string" || !SWATCH_HEX_RE.test(swatch.hex)) {
+      return { ok: false, error: `${where}.swatches[${i}].hex: expected "#rrggbb"` };
+    }
+    swatches.push({ name: swatch.name, hex: swatch.hex.toLowerCase() });
+  }
+
+  return { ok: true, value: { id: raw.id, name: raw.name, swatches } };
+}
+
+export function readPalettes(): CustomPalette[] {
+  const json = localStorage.getItem(PALETTES_KEY);
+  if (!json) return [];
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .slice(0, MAX_PALETTES)
+      .map(validatePalette)
+      .flatMap((p) => (p.ok ? [p.value] : []));
+  } catch {
+    return [];
+  }
+}
+
+export function writePalettes(palettes: CustomPalette[]) {
+  localStorage.setItem(PALETTES_KEY, JSON.stringify(palettes.slice(0, MAX_PALETTES)));
+}
+
+export function readActivePaletteId(): string {
+  return localStorage.getItem(ACTIVE_PALETTE_KEY) ?? PCC_PALETTE_ID;
+}
+
+export function writeActivePaletteId(id: string) {
+  localStorage.setItem(ACTIVE_PALETTE_KEY, id);
+}
+
+// Colors offered by a palette; unknown ids fall back to PCC
+export function paletteOptions(palettes: CustomPalette[], id: string): ColorOption[] {
+  const custom = palettes.find((p) => p.id === id);
+  if (!custom) return Object.entries(PCC).map(([key, entry]) => ({ value: key, label: entry.label }));
+  return custom.swatches.map((s) => ({ value: s.hex, label: s.name || s.hex.toUpperCase() }));
+}
+
+// Readable name for any color value, whichever palette it came from
+export function colorLabel(palettes: CustomPalette[], value: string): string {
+  if (Object.prototype.hasOwnProperty.call(PCC, value)) return PCC[value].label;
+  for (const palette of palettes) {
+    const swatch = palette.swatches.find((s) => s.hex === value.toLowerCase());
+    if (swatch?.name) return swatch.name;
+  }
+  return value.toUpperCase();
+}
@@ -0,0 +1,66 @@
+// src/displayProfiles.ts
+// Student View display profiles. Each profile is a set of CSS variable slots,
+// applied after the theme through setThemeSlot() so it can override colors too.
+// styles.css reads the urgency slots; see "Display profiles" there. Flash timing is in flash.ts.
+
+import type { DisplayProfile } from "./protocol";
+
+export const DISPLAY_PROFILE_LABELS: Record<DisplayProfile, string> = {
+  standard: "Standard",
+  colorblind: "Colorblind-safe",
+  "reduced-motion": "Reduced motion",
+  "max-contrast": "Maximum contrast",
+};
+
+// Every profile sets every slot, so switching never leaves a previous profile's value behind
+const STANDARD: Record<string, string> = {
+  "--urgent-color": "#821812",
+  "--urgent-icon": '""',
+  "--urgent-border": "transparent",
+  "--urgent-pattern": "none",
+  "--urgent-animation": "pulse 1s infinite",
+};
+
+// Flash and the ticker are handled by calmMotion() below: flash swaps to a border
+// pulse, the ticker stops scrolling
+const REDUCED_MOTION: Record<string, string> = {
+  "--urgent-animation": "none",
+};
+
+export const DISPLAY_PROFILES: Record<DisplayProfile, Record<string, string>> = {
+  standard: STANDARD,
+
+  // Urgency shown by an icon, a border and a stripe pattern, not just red text
+  colorblind: {
+    ...STANDARD,
+    "--urgent-icon": '"⚠ "',
+    "--urgent-border": "currentColor",
+    "--urgent-pattern":
+      "repeating-linear-gradient(45deg, rgba(255, 255, 255, 0.18) 0 12px, transparent 12px 24px)",
+  },
+
+  "reduced-motion": { ...STANDARD, ...REDUCED_MOTION },
+
+  // Overrides the theme: white and yellow on black, with the colorblind cues kept
+  "max-contrast": {
+    ...STANDARD,
+    "--app-bg": "black",
+    "--app-text": "white",
+    "--subtitle-color": "bright-yellow",
+    "--urgent-color": "bright-yellow",
+    "--urgent-icon": '"⚠ "',
+    "--urgent-border": "currentColor",
+  },
+};
+
+// Nothing on the Student View should move more than it must: flash pulses the
+// border only and the ticker shows its items in turn instead of scrolling
+export function calmMotion(profile: DisplayProfile, prefersReducedMotion: boolean): boolean {
+  return profile === "reduced-motion" || prefersReducedMotion;
+}
+
+// The OS setting wins over any profile's motion, whatever else the profile changes
+export function profileSlots(profile: DisplayProfile, prefersReducedMotion: boolean): Record<string, string> {
+  const slots = DISPLAY_PROFILES[profile];
+  return prefersReducedMotion ? { ...slots, ...REDUCED_MOTION } : slots;
+}
@@ -0,0 +1,77 @@
+// src/fitText.ts
+// Student View auto-fit: finds the largest title size (subtitle follows at a
+// fixed ratio) that keeps the whole message inside the .wrap safe area.
+// The safe area is .wrap's content box, so its padding keeps text clear of the
+// drag bar and, with .timer-visible, of the timer.
+
+export type FitRange = { min: number; max: number };
+
+export const TITLE_FIT: FitRange = { min: 28, max: 160 };
+export const SUBTITLE_FIT: FitRange = { min: 18, max: 96 };
+
+// Same proportion as the stylesheet's fallback sizes (72px / 120px)
+const SUBTITLE_RATIO = 0.6;
+
+// Search stops once the candidate range is narrower than this, in px
+const PRECISION = 1;
+
+export type FitTargets = {
+  wrap: HTMLElement;
+  message: HTMLElement;
+  title: HTMLElement;
+  subtitle: HTMLElement;
+};
+
+function clamp(n: number, { min, max }: FitRange): number {
+  return Math.min(max, Math.max(min, n));
+}
+
+function safeArea(wrap: HTMLElement): { width: number; height: number } {
+  const cs = getComputedStyle(wrap);
+  const px = (v: string) => parseFloat(v) || 0;
+  // .wrap grows with its content, so the window caps the height
+  const height = Math.min(wrap.clientHeight, window.innerHeight);
+  return {
+    width: wrap.clientWidth - px(cs.paddingLeft) - px(cs.paddingRight),
+    height: height - px(cs.paddingTop) - px(cs.paddingBottom),
+  };
+}
+
+function setSizes(t: FitTargets, titlePx: number) {
+  t.title.style.fontSize = `${titlePx}px`;
+  t.subtitle.style.fontSize = `${clamp(titlePx * SUBTITLE_RATIO, SUBTITLE_FIT)}px`;
+}
+
+// A word wider than its line shows up as scrollWidth > clientWidth
+function fits(t: FitTargets, area: { width: number; height: number }): boolean {
+  const box = t.message.getBoundingClientRect();
+  if (box.width > area.width + 0.5 || box.height > area.height + 0.5) return false;
+  return [t.title, t.subtitle].every((el) => el.scrollWidth <= el.clientWidth);
+}
+
+export function fitMessage(t: FitTargets) {
+  const area = safeArea(t.wrap);
+  if (area.width <= 0 || area.height <= 0) return;
+
+  // Words may only break mid-word when nothing else fits at the minimum size
+  t.message.classList.remove("fit-break");
+
+  let lo = TITLE_FIT.min;
+  let hi = TITLE_FIT.max;
+  setSizes(t, hi);
+  if (fits(t, area)) return;
+
+  setSizes(t, lo);
+  if (!fits(t, area)) {
+    t.message.classList.add("fit-break");
+    return;
+  }
+
+  while (hi - lo > PRECISION) {
+    const mid = (lo + hi) / 2;
+    setSizes(t, mid);
+    if (fits(t, area)) lo = mid;
+    else hi = mid;
+  }
+  setSizes(t, Math.floor(lo));
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { MAX_FLASH_CYCLE_MS, MAX_FLASH_REPEATS, MIN_FLASH_CYCLE_MS, describeFlash, flashPlan } from "./flash";
+
+const settings = { flashPattern: "strobe" as const, flashCycleMs: 600, flashRepeats: 3 };
+
+describe("flashPlan", () => {
+  it("never flashes 3 or more times a second", () => {
+    const plan = flashPlan({ ...settings, flashCycleMs: 50 });
+    expect(plan.cycleMs).toBe(350);
+    expect(1000 / plan.cycleMs).toBeLessThan(3);
+    expect(describeFlash(plan)).toBe("2.9 flashes/s for 1.1 s");
+  });
+
+  it("rounds and clamps the cycle at both ends", () => {
+    expect(flashPlan({ ...settings, flashCycleMs: 600.4 }).cycleMs).toBe(600);
+    expect(flashPlan({ ...settings, flashCycleMs: MIN_FLASH_CYCLE_MS - 0.6 }).cycleMs).toBe(MIN_FLASH_CYCLE_MS);
+    expect(flashPlan({ ...settings, flashCycleMs: 99_999 }).cycleMs).toBe(MAX_FLASH_CYCLE_MS);
+  });
+
+  it("rounds and clamps the repeats at both ends", () => {
+    expect(flashPlan({ ...settings, flashRepeats: 2.6 }).repeats).toBe(3);
+    expect(flashPlan({ ...settings, flashRepeats: 0 }).repeats).toBe(1);
+    expect(flashPlan({ ...settings, flashRepeats: 50 }).repeats).toBe(MAX_FLASH_REPEATS);
+  });
+
+  // Settings brings the Flash button back after totalMs
+  it("lasts exactly its cycles", () => {
+    for (const [flashCycleMs, flashRepeats] of [[50, 0], [600, 3], [99_999, 50], [777.7, 4.4]]) {
+      const plan = flashPlan({ ...settings, flashCycleMs, flashRepeats });
+      expect(plan.totalMs).toBe(plan.cycleMs * plan.repeats);
+    }
+  });
+
+  it("keeps the screen still under reduced motion", () => {
+    expect(flashPlan(settings).pattern).toBe("strobe");
+    expect(flashPlan(settings, true).pattern).toBe("border");
+  });
+
+  it("animates half a cycle per alternation", () => {
+    expect(flashPlan(settings).animation).toBe("flash-strobe 300ms ease-in-out 0s 6 alternate");
+    expect(flashPlan({ ...settings, flashPattern: "invert" }, true).animation).toBe(
+      "border-pulse 300ms ease-in-out 0s 6 alternate"
+    );
+  });
+});
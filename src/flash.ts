@@ -0,0 +1,58 @@
+// src/flash.ts
+// Flash timing, shared by both windows so the Student View and the control
+// panel agree on how long a flash lasts.
+//
+// A cycle is one on/off pair. Cycles are never shorter than MIN_FLASH_CYCLE_MS,
+// which keeps every pattern under 3 flashes per second (WCAG 2.3.1).
+
+import type { FlashPattern } from "./protocol";
+
+export const MIN_FLASH_CYCLE_MS = 350;
+export const MAX_FLASH_CYCLE_MS = 2000;
+export const MAX_FLASH_REPEATS = 10;
+
+export const FLASH_PATTERN_LABELS: Record<FlashPattern, string> = {
+  pulse: "Pulse",
+  border: "Border flash",
+  invert: "Invert",
+  strobe: "Color strobe",
+};
+
+// @keyframes names in styles.css
+const KEYFRAMES: Record<FlashPattern, string> = {
+  pulse: "flash-pulse",
+  border: "border-pulse",
+  invert: "flash",
+  strobe: "flash-strobe",
+};
+
+export type FlashPlan = {
+  pattern: FlashPattern;
+  cycleMs: number;
+  repeats: number;
+  totalMs: number;
+  // value for the --flash-animation slot
+  animation: string;
+};
+
+export function flashPlan(
+  s: { flashPattern: FlashPattern; flashCycleMs: number; flashRepeats: number },
+  calm = false
+): FlashPlan {
+  // Reduced motion keeps the screen still and only pulses the frame
+  const pattern = calm ? "border" : s.flashPattern;
+  const cycleMs = Math.min(MAX_FLASH_CYCLE_MS, Math.max(MIN_FLASH_CYCLE_MS, Math.round(s.flashCycleMs)));
+  const repeats = Math.min(MAX_FLASH_REPEATS, Math.max(1, Math.round(s.flashRepeats)));
+  return {
+    pattern,
+    cycleMs,
+    repeats,
+    totalMs: cycleMs * repeats,
+    animation: `${KEYFRAMES[pattern]} ${cycleMs / 2}ms ease-in-out 0s ${repeats * 2} alternate`,
+  };
+}
+
+export function describeFlash(plan: FlashPlan): string {
+  const perSecond = 1000 / plan.cycleMs;
+  return `${perSecond.toFixed(1)} flashes/s for ${(plan.totalMs / 1000).toFixed(1)} s`;
+}
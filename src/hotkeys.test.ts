@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_HOTKEYS,
+  acceleratorFromEvent,
+  activeHotkeys,
+  hotkeyConflicts,
+  quickHotkeyId,
+  readHotkeyFailures,
+  readHotkeys,
+  validateHotkeys,
+  writeHotkeyFailures,
+  writeHotkeys,
+} from "./hotkeys";
+
+beforeEach(() => localStorage.clear());
+
+describe("acceleratorFromEvent", () => {
+  const press = (code: string, mods: KeyboardEventInit = {}) =>
+    acceleratorFromEvent(new KeyboardEvent("keydown", { code, ...mods }));
+
+  it("orders modifiers the same way every time", () => {
+    expect(press("KeyB", { ctrlKey: true, shiftKey: true, altKey: true })).toBe("CommandOrControl+Alt+Shift+B");
+    expect(press("Digit5", { altKey: true })).toBe("Alt+5");
+    expect(press("Comma", { shiftKey: true })).toBe("Shift+,");
+  });
+
+  it("wants a modifier, except on F-keys", () => {
+    expect(press("KeyB")).toBeNull();
+    expect(press("F9")).toBe("F9");
+    expect(press("ControlLeft", { ctrlKey: true })).toBeNull();
+  });
+});
+
+describe("hotkeyConflicts", () => {
+  it("flags shared and reserved shortcuts", () => {
+    const conflicts = hotkeyConflicts(
+      { show: "F9", blank: "F9", flash: "CommandOrControl+Q", timerStart: "F10" },
+      (id) => id.toUpperCase()
+    );
+    expect(Object.fromEntries(conflicts)).toEqual({
+      show: "Same as BLANK",
+      blank: "Same as SHOW",
+      flash: "Already used for Quit",
+    });
+  });
+});
+
+it("drops bindings of deleted quick messages", () => {
+  const map = { show: "F1", [quickHotkeyId("chat")]: "F2", [quickHotkeyId("gone")]: "F3" };
+  expect(activeHotkeys(map, ["chat"])).toEqual({ show: "F1", [quickHotkeyId("chat")]: "F2" });
+});
+
+describe("storage", () => {
+  it("starts from the defaults and skips unreadable bindings", () => {
+    expect(readHotkeys()).toEqual(DEFAULT_HOTKEYS);
+    localStorage.setItem("hotkeys", JSON.stringify({ show: "F1", blank: "Hyper+B", flash: 5 }));
+    expect(readHotkeys()).toEqual({ show: "F1" });
+    writeHotkeys({});
+    expect(readHotkeys()).toEqual({});
+  });
+
+  it("keeps what the system refused for Settings to show", () => {
+    expect(readHotkeyFailures().size).toBe(0);
+    writeHotkeyFailures(new Map([["show", "Couldn't register: taken"]]));
+    expect(Object.fromEntries(readHotkeyFailures())).toEqual({ show: "Couldn't register: taken" });
+  });
+});
+
+it("validates imported maps as a whole", () => {
+  expect(validateHotkeys({ show: "F1" })).toEqual({ ok: true, value: { show: "F1" } });
+  expect(validateHotkeys([]).ok).toBe(false);
+  expect(validateHotkeys({ show: "Hyper+B" })).toEqual({
+    ok: false,
+    error: 'hotkeys.show: expected a shortcut like "CommandOrControl+Alt+B"',
+  });
+});
@@ -0,0 +1,213 @@
+// src/hotkeys.ts
+// System-wide hotkeys for the proctor actions, so they work while Zoom has the
+// focus. The map is stored here; the main Student View registers it for as long
+// as the app runs, and Settings only edits it.
+//
+// Bindings are accelerator strings as the global-shortcut plugin takes them
+// ("CommandOrControl+Alt+B"), modifiers always in ACCELERATOR_MODIFIERS order so
+// two bindings are the same shortcut exactly when the strings are equal.
+
+import { emit, listen, type UnlistenFn } from "@tauri-apps/api/event";
+import { register, unregisterAll } from "@tauri-apps/plugin-global-shortcut";
+import { isRecord, type ParseResult } from "./protocol";
+
+const HOTKEYS_KEY = "hotkeys";
+// What the system refused at the last registration, for Settings to show
+export const HOTKEY_FAILURES_KEY = "hotkeys:failures";
+const PAUSE_EVENT = "hotkeys:pause";
+
+export type HotkeyAction = "show" | "blank" | "flash" | "timerStart" | "timerPause" | "timerReset";
+
+export const HOTKEY_LABELS: Record<HotkeyAction, string> = {
+  show: "Show Attention",
+  blank: "Blank Screen",
+  flash: "Flash",
+  timerStart: "Start timer",
+  timerPause: "Pause timer",
+  timerReset: "Reset timer",
+};
+
+// Action id -> accelerator. Ids are the HotkeyActions plus "quick:<id>" for quick
+// messages; an action without an entry has no hotkey.
+export type HotkeyMap = Record<string, string>;
+
+export const DEFAULT_HOTKEYS: HotkeyMap = {
+  show: "CommandOrControl+Alt+S",
+  blank: "CommandOrControl+Alt+B",
+  flash: "CommandOrControl+Alt+F",
+  timerStart: "CommandOrControl+Alt+T",
+  timerPause: "CommandOrControl+Alt+P",
+  timerReset: "CommandOrControl+Alt+R",
+};
+
+// Shortcuts the app already uses, see lib.rs and main.ts
+const RESERVED: Record<string, string> = {
+  "CommandOrControl+,": "Open Settings",
+  "CommandOrControl+Q": "Quit",
+  "CommandOrControl+W": "Close window",
+};
+
+const ACCELERATOR_MODIFIERS = ["CommandOrControl", "Control", "Alt", "Shift"] as const;
+const ACCELERATOR_RE =
+  /^(?:(?:CommandOrControl|Control|Alt|Shift)\+)*(?:[A-Z0-9]|F(?:[1-9]|1[0-9]|2[0-4])|Space|Enter|Tab|Up|Down|Left|Right|[,.;'/\\`=[\]-])$/;
+
+const isMac = navigator.userAgent.includes("Mac");
+
+export function quickHotkeyId(messageId: string): string {
+  return `quick:${messageId}`;
+}
+
+export function isHotkeyAction(v: string): v is HotkeyAction {
+  return Object.prototype.hasOwnProperty.call(HOTKEY_LABELS, v);
+}
+
+export function readHotkeys(): HotkeyMap {
+  const json = localStorage.getItem(HOTKEYS_KEY);
+  if (!json) return { ...DEFAULT_HOTKEYS };
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (!isRecord(raw)) return { ...DEFAULT_HOTKEYS };
+    return Object.fromEntries(
+      Object.entries(raw).filter((e): e is [string, string] => typeof e[1] === "string" && ACCELERATOR_RE.test(e[1]))
+    );
+  } catch {
+    return { ...DEFAULT_HOTKEYS };
+  }
+}
+
+// For imports: every binding must be an accelerator the plugin takes
+export function validateHotkeys(raw: unknown): ParseResult<HotkeyMap> {
+  if (!isRecord(raw)) return { ok: false, error: "hotkeys: not an object" };
+  for (const [id, accelerator] of Object.entries(raw)) {
+    if (typeof accelerator !== "string" || !ACCELERATOR_RE.test(accelerator)) {
+      return { ok: false, error: `hotkeys.${id}: expected a shortcut like "CommandOrControl+Alt+B"` };
+    }
+  }
+  return { ok: true, value: raw as HotkeyMap };
+}
+
+export function writeHotkeys(map: HotkeyMap) {
+  localStorage.setItem(HOTKEYS_KEY, JSON.stringify(map));
+}
+
+// Bindings of deleted quick messages stay stored but do nothing
+export function activeHotkeys(map: HotkeyMap, quickMessageIds: string[]): HotkeyMap {
+  const quick = new Set(quickMessageIds.map(quickHotkeyId));
+  return Object.fromEntries(Object.entries(map).filter(([id]) => isHotkeyAction(id) || quick.has(id)));
+}
+
+export function readHotkeyFailures(): Map<string, string> {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(HOTKEY_FAILURES_KEY) ?? "{}");
+    if (!isRecord(raw)) return new Map();
+    return new Map(Object.entries(raw).filter((e): e is [string, string] => typeof e[1] === "string"));
+  } catch {
+    return new Map();
+  }
+}
+
+export function writeHotkeyFailures(failures: Map<string, string>) {
+  localStorage.setItem(HOTKEY_FAILURES_KEY, JSON.stringify(Object.fromEntries(failures)));
+}
+
+// While Settings records a binding, so the current ones don't fire instead
+export function pauseHotkeys(paused: boolean): Promise<void> {
+  return emit(PAUSE_EVENT, paused);
+}
+
+export function listenForHotkeyPause(onPause: (paused: boolean) => void): Promise<UnlistenFn> {
+  return listen<boolean>(PAUSE_EVENT, (e) => onPause(e.payload === true));
+}
+
+// Physical keys, so a binding means the same key on any keyboard layout
+function keyName(code: string): string | null {
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit[0-9]$/.test(code)) return code.slice(5);
+  if (/^F([1-9]|1[0-9]|2[0-4])$/.test(code)) return code;
+  const named: Record<string, string> = {
+    Space: "Space",
+    Enter: "Enter",
+    Tab: "Tab",
+    ArrowUp: "Up",
+    ArrowDown: "Down",
+    ArrowLeft: "Left",
+    ArrowRight: "Right",
+    Comma: ",",
+    Period: ".",
+    Semicolon: ";",
+    Quote: "'",
+    Slash: "/",
+    Backslash: "\\",
+    Backquote: "`",
+    Equal: "=",
+    Minus: "-",
+    BracketLeft: "[",
+    BracketRight: "]",
+  };
+  return named[code] ?? null;
+}
+
+// The accelerator for a key press, or null while only modifiers are down.
+// Plain keys need a modifier, except F-keys: a global "B" would eat every B typed.
+export function acceleratorFromEvent(e: KeyboardEvent): string | null {
+  const key = keyName(e.code);
+  if (!key) return null;
+
+  const held: Record<(typeof ACCELERATOR_MODIFIERS)[number], boolean> = {
+    CommandOrControl: isMac ? e.metaKey : e.ctrlKey,
+    Control: isMac && e.ctrlKey,
+    Alt: e.altKey,
+    Shift: e.shiftKey,
+  };
+  const mods = ACCELERATOR_MODIFIERS.filter((m) => held[m]);
+  if (mods.length === 0 && !key.startsWith("F")) return null;
+  return [...mods, key].join("+");
+}
+
+// "⌘⌥B" on a Mac, "Ctrl+Alt+B" elsewhere
+export function formatAccelerator(accelerator: string): string {
+  const parts = accelerator.split("+");
+  if (isMac) {
+    const symbols: Record<string, string> = { CommandOrControl: "⌘", Control: "⌃", Alt: "⌥", Shift: "⇧" };
+    return parts.map((p) => symbols[p] ?? p).join("");
+  }
+  return parts.map((p) => (p === "CommandOrControl" || p === "Control" ? "Ctrl" : p)).join("+");
+}
+
+// Why each binding can't be used as is: another action has it, or the app does
+export function hotkeyConflicts(map: HotkeyMap, labelFor: (id: string) => string): Map<string, string> {
+  const conflicts = new Map<string, string>();
+  for (const [id, accelerator] of Object.entries(map)) {
+    if (RESERVED[accelerator]) {
+      conflicts.set(id, `Already used for ${RESERVED[accelerator]}`);
+      continue;
+    }
+    const other = Object.keys(map).find((o) => o !== id && map[o] === accelerator);
+    if (other) conflicts.set(id, `Same as ${labelFor(other)}`);
+  }
+  return conflicts;
+}
+
+// Replaces whatever this app had registered; an empty map just clears them.
+// Bindings with a conflict are skipped; returns action id -> error for those
+// the system refused (usually taken by another app).
+export async function registerHotkeys(
+  map: HotkeyMap,
+  skip: Set<string>,
+  onAction: (id: string) => void
+): Promise<Map<string, string>> {
+  await unregisterAll();
+
+  const failures = new Map<string, string>();
+  for (const [id, accelerator] of Object.entries(map)) {
+    if (skip.has(id)) continue;
+    try {
+      await register(accelerator, (event) => {
+        if (event.state === "Pressed") onAction(id);
+      });
+    } catch (e) {
+      failures.set(id, `Couldn't register: ${String(e)}`);
+    }
+  }
+  return failures;
+}
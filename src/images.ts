@@ -0,0 +1,81 @@
+// src/images.ts
+// Pictures for rich messages ([image:<id>] in richText.ts), kept as data URLs in
+// localStorage so both windows can show them without any file access.
+
+import { isRecord, type ParseResult } from "./protocol";
+
+const IMAGES_KEY = "images";
+
+export const MAX_IMAGES = 8;
+// localStorage holds about 5 MB per origin, shared with everything else
+export const MAX_IMAGE_BYTES = 400 * 1024;
+
+// Raster formats only: an SVG can carry script
+const IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+const IMAGE_DATA_URL_RE = /^data:image\/(png|jpeg|gif|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+export type StoredImage = {
+  id: string;
+  name: string;
+  dataUrl: string;
+};
+
+export function newImageId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isSafeImageDataUrl(v: unknown): v is string {
+  return typeof v === "string" && IMAGE_DATA_URL_RE.test(v);
+}
+
+export function validateImage(raw: unknown, index: number): ParseResult<StoredImage> {
+  const where = `images[${index}]`;
+  if (!isRecord(raw)) return { ok: false, error: `${where}: not an object` };
+  if (typeof raw.id !== "string" || !/^[a-z0-9-]+$/.test(raw.id)) {
+    return { ok: false, error: `${where}.id: expected lowercase letters, digits and dashes` };
+  }
+  if (typeof raw.name !== "string") return { ok: false, error: `${where}.name: expected string` };
+  if (!isSafeImageDataUrl(raw.dataUrl)) {
+    return { ok: false, error: `${where}.dataUrl: expected a PNG, JPEG, GIF or WebP data URL` };
+  }
+  return { ok: true, value: { id: raw.id, name: raw.name, dataUrl: raw.dataUrl } };
+}
+
+export function readImages(): StoredImage[] {
+  const json = localStorage.getItem(IMAGES_KEY);
+  if (!json) return [];
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .slice(0, MAX_IMAGES)
+      .map(validateImage)
+      .flatMap((i) => (i.ok ? [i.value] : []));
+  } catch {
+    return [];
+  }
+}
+
+// Throws when localStorage is full; callers report that to the user
+export function writeImages(images: StoredImage[]) {
+  localStorage.setItem(IMAGES_KEY, JSON.stringify(images.slice(0, MAX_IMAGES)));
+}
+
+export async function imageFromFile(file: File): Promise<ParseResult<StoredImage>> {
+  if (!IMAGE_TYPES.includes(file.type)) {
+    return { ok: false, error: `${file.name} isn't a PNG, JPEG, GIF or WebP image.` };
+  }
+  if (file.size > MAX_IMAGE_BYTES) {
+    return { ok: false, error: `${file.name} is over ${Math.round(MAX_IMAGE_BYTES / 1024)} KB.` };
+  }
+
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  if (!isSafeImageDataUrl(dataUrl)) return { ok: false, error: `${file.name} couldn't be read as an image.` };
+
+  return { ok: true, value: { id: newImageId(), name: file.name.replace(/\.[^.]+$/, ""), dataUrl } };
+}
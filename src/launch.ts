@@ -0,0 +1,68 @@
+// src/launch.ts
+// Launch options from the command line or an attentionscreen:// link
+// (src-tauri/src/launch.rs). The main window asks for the first launch's once at
+// startup; later launches of the app arrive as events instead of a second copy.
+// The extra Student Views open after that, so the mode and start wait for each
+// of them in storage.
+
+import { invoke } from "@tauri-apps/api/core";
+import { listen, type UnlistenFn } from "@tauri-apps/api/event";
+import { isRecord, type DisplayMode } from "./protocol";
+import { viewKey } from "./studentViews";
+
+const LAUNCH_EVENT = "launch:options";
+const PENDING_LAUNCH_KEY = "launch:pending";
+// A view that didn't open in time shouldn't act on the launch the next day
+const PENDING_LAUNCH_MS = 60 * 1000;
+
+export type LaunchOptions = {
+  // Recalled by name, ignoring case
+  scene: string | null;
+  title: string | null;
+  subtitle: string | null;
+  // Sets a countdown of this length
+  timerSeconds: number | null;
+  start: boolean;
+  mode: DisplayMode | null;
+  noSettings: boolean;
+  fullscreen: boolean;
+  // Options that couldn't be read; the rest still apply
+  errors: string[];
+};
+
+// What a launch does beyond settings, which are stored for every view anyway
+export type LaunchState = {
+  mode: DisplayMode | null;
+  start: boolean;
+};
+
+// null after the first call
+export function takeLaunchOptions(): Promise<LaunchOptions | null> {
+  return invoke<LaunchOptions | null>("take_launch_options");
+}
+
+export function listenForLaunch(onLaunch: (options: LaunchOptions) => void): Promise<UnlistenFn> {
+  return listen<LaunchOptions>(LAUNCH_EVENT, (e) => onLaunch(e.payload));
+}
+
+export function writePendingLaunch(view: string, state: LaunchState) {
+  localStorage.setItem(viewKey(PENDING_LAUNCH_KEY, view), JSON.stringify({ ...state, at: Date.now() }));
+}
+
+// Once per view, and only shortly after the launch
+export function takePendingLaunch(view: string): LaunchState | null {
+  const key = viewKey(PENDING_LAUNCH_KEY, view);
+  const json = localStorage.getItem(key);
+  if (!json) return null;
+  localStorage.removeItem(key);
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (!isRecord(raw) || typeof raw.at !== "number" || Date.now() - raw.at > PENDING_LAUNCH_MS) return null;
+    return {
+      mode: raw.mode === "message" || raw.mode === "blank" ? raw.mode : null,
+      start: raw.start === true,
+    };
+  } catch {
+    return null;
+  }
+}
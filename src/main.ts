@@ -1,19 +1,80 @@
-import { WebviewWindow } from "@tauri-apps/api/webviewWindow";
+import { WebviewWindow, getCurrentWebviewWindow } from "@tauri-apps/api/webviewWindow";
 import { listen } from "@tauri-apps/api/event";
-
-/* -----------------------------
-   Types
------------------------------- */
-type AppSettings = {
-  bg: string;
-  titleText: string;
-  text: string;
-  subtitleText: string;
-  subtitleColor: string;
-  timerMode: "off" | "countdown";
-  timerMin: number;
-  timerSec: number;
-};
+import {
+  ALL_VIEWS,
+  HEARTBEAT_MS,
+  listenForCommands,
+  sendCommand,
+  sendStateReport,
+  type AppSettings,
+  type Command,
+  type DisplayMode,
+  type TimerAlert,
+  type TimerAlertEffect,
+  type TimerMode,
+  type TimerPhase,
+} from "./protocol";
+import { readControlConfig, startControl } from "./control";
+import { calmMotion, profileSlots } from "./displayProfiles";
+import { fitMessage } from "./fitText";
+import {
+  listenForLaunch,
+  takeLaunchOptions,
+  takePendingLaunch,
+  writePendingLaunch,
+  type LaunchOptions,
+  type LaunchState,
+} from "./launch";
+import { flashPlan } from "./flash";
+import { readImages } from "./images";
+import { PCC } from "./palette";
+import { renderQrCode } from "./qrCode";
+import { renderRichText } from "./richText";
+import { updateTicker } from "./ticker";
+import { DEFAULT_SETTINGS, readStoredSettings, writeStoredSettings } from "./storage";
+import { dueActions, readScheduledActions, readScheduledRuns, writeScheduledRuns, type ScheduledAction } from "./scheduledActions";
+import { MAIN_VIEW, allViews, openStudentView, readStudentViews } from "./studentViews";
+import { applyQuickMessage, readQuickMessages } from "./quickMessages";
+import {
+  activeHotkeys,
+  hotkeyConflicts,
+  isHotkeyAction,
+  listenForHotkeyPause,
+  quickHotkeyId,
+  readHotkeys,
+  registerHotkeys,
+  writeHotkeyFailures,
+  type HotkeyAction,
+} from "./hotkeys";
+import {
+  listenForTray,
+  readOpenSettingsOnLaunch,
+  setTrayStatus,
+  syncTrayMenu,
+  writeOpenSettingsOnLaunch,
+} from "./tray";
+import { listenForRemote, readRemoteConfig, startRemote, syncRemoteScenes } from "./remote";
+import { readScenes } from "./scenes";
+import {
+  afterSkip,
+  catchUp,
+  countUpElapsedMs,
+  countUpStartedAt,
+  deadlineExpiredSince,
+  deadlineRemainingMs,
+  extendDeadline,
+  extendPhase,
+  nextPhase,
+  phaseDurationMs,
+  resolveDeadline,
+  type CountdownPosition,
+} from "./timerEngine";
+import { readTimerState, writeTimerState } from "./timerState";
+
+// Which Student View this is: "main", or an extra window opened from Settings.
+// Settings, timer state and commands are all per window.
+const viewLabel = getCurrentWebviewWindow().label;
+const isMainView = viewLabel === MAIN_VIEW;
 
 /* -----------------------------
    Debug helper (optional)
@@ -43,34 +104,49 @@ function formatTauriError(e: unknown): string {
 ------------------------------ */
 const root = document.documentElement;
 
-function setMode(mode: "blank" | "message") {
+// index.html boots with body.mode-blank
+let currentMode: DisplayMode = "blank";
+let flashing = false;
+let flashTimer: number | undefined;
+
+function setMode(mode: DisplayMode) {
+  currentMode = mode;
+  flashing = false;
+  window.clearTimeout(flashTimer);
   document.body.classList.remove("mode-blank", "mode-message", "mode-flash");
   document.body.classList.add(mode === "blank" ? "mode-blank" : "mode-message");
 }
 
+// The plan's totalMs is the one duration both the animation and `flashing` follow,
+// so the panel's Flash button comes back exactly when the screen settles
 function flash() {
+  const plan = flashPlan(
+    lastSettings ?? DEFAULT_SETTINGS,
+    calmMotion(lastSettings?.displayProfile ?? "standard", reducedMotionQuery.matches)
+  );
+  setThemeSlot("--flash-animation", plan.animation);
+
+  // Restart from the first frame when a flash arrives mid-flash
+  window.clearTimeout(flashTimer);
+  document.body.classList.remove("mode-flash");
+  void document.body.offsetWidth;
   document.body.classList.add("mode-flash");
-  setTimeout(() => document.body.classList.remove("mode-flash"), 1800);
-}
+  flashing = true;
 
-listen("attention:setMode", (e) => setMode(e.payload as any));
-listen("attention:flash", () => flash());
+  flashTimer = window.setTimeout(() => {
+    document.body.classList.remove("mode-flash");
+    flashing = false;
+    reportState(null);
+  }, plan.totalMs);
+}
 
 function setThemeSlot(slotVar: string, value: string) {
-  // Settings sends token keys (ex: "turquoise") OR hex.
-  // If you're sending token keys, you'll convert them here.
-  // Quick approach: treat them as CSS vars if you already have them defined.
-  //
-  // If settings sends "turquoise" and you have CSS variable --pcc-turquoise = #....,
-  // then set --app-bg to var(--pcc-turquoise).
-  //
-  // If settings sends "#008EAA", just set it directly.
-
-  if (value.startsWith("#")) {
-    root.style.setProperty(slotVar, value);
+  // Palette tokens (ex: "turquoise") map to their CSS var (--pcc-turquoise).
+  // Anything else ("#008EAA", or a profile's raw CSS value) is set as-is.
+  if (Object.prototype.hasOwnProperty.call(PCC, value)) {
+    root.style.setProperty(slotVar, `var(${PCC[value].cssVar})`);
   } else {
-    // token key -> map to CSS var name
-    root.style.setProperty(slotVar, `var(--pcc-${value})`);
+    root.style.setProperty(slotVar, value);
   }
 }
 
@@ -85,41 +161,119 @@ function setTextContent(title: string, subtitle: string) {
 
   const subtitleEl = document.getElementById("subtitleDisplay") as HTMLElement | null;
 
-  if (titleEl) titleEl.textContent = title;
+  // Called on every timer tick; only a real change needs a re-render and re-fit
+  if (titleEl?.dataset.source === title && subtitleEl?.dataset.source === subtitle) return;
+
+  const images = readImages();
+  for (const [el, source] of [
+    [titleEl, title],
+    [subtitleEl, subtitle],
+  ] as const) {
+    if (!el) continue;
+    el.dataset.source = source;
+    renderRichText(el, source, images);
+    // Pictures decode after layout, and change the size to fit
+    el.querySelectorAll("img").forEach((img) => img.addEventListener("load", scheduleTextFit, { once: true }));
+  }
 
-  if (subtitleEl) {
-    subtitleEl.textContent = subtitle;
-    subtitleEl.toggleAttribute("hidden", subtitle.trim().length === 0);
+  subtitleEl?.toggleAttribute("hidden", subtitle.trim().length === 0);
+  scheduleTextFit();
+}
+
+// QR code under the message, with its text as the caption
+function setQrContent(text: string) {
+  const figure = document.getElementById("qrDisplay");
+  const code = document.querySelector<SVGSVGElement>("#qrCode");
+  const caption = document.getElementById("qrCaption");
+  if (!figure || !code || !caption || figure.dataset.source === text) return;
+
+  figure.dataset.source = text;
+  const shown = renderQrCode(code, text.trim());
+  caption.textContent = text.trim();
+  figure.toggleAttribute("hidden", !shown);
+  scheduleTextFit();
+}
+
+// The strip reserves its band through body.ticker-visible; the message re-fits around it
+function applyTicker(restart = false) {
+  const strip = document.getElementById("ticker");
+  const track = document.getElementById("tickerTrack");
+  if (!lastSettings || !strip || !track) return;
+
+  const shown = updateTicker(
+    strip,
+    track,
+    {
+      on: lastSettings.tickerOn,
+      speed: lastSettings.tickerSpeed,
+      items: lastSettings.tickerItems.filter((item) => !item.paused).map((item) => item.text),
+      calm: calmMotion(lastSettings.displayProfile, reducedMotionQuery.matches),
+    },
+    restart
+  );
+  if (document.body.classList.contains("ticker-visible") !== shown) {
+    document.body.classList.toggle("ticker-visible", shown);
+    scheduleTextFit();
   }
 }
 
+// Coalesces re-fits into one per frame (text change, resize, timer shown or hidden)
+let textFitFrame: number | null = null;
+
+function scheduleTextFit() {
+  if (textFitFrame !== null) return;
+  textFitFrame = window.requestAnimationFrame(() => {
+    textFitFrame = null;
+    const wrap = document.querySelector<HTMLElement>(".wrap");
+    const message = document.querySelector<HTMLElement>(".wrap .message");
+    const title = document.getElementById("titleDisplay");
+    const subtitle = document.getElementById("subtitleDisplay");
+    if (wrap && message && title && subtitle) fitMessage({ wrap, message, title, subtitle });
+  });
+}
+
 /* -----------------------------
    Settings: load + apply + listen
 ------------------------------ */
-function readStoredSettings(): AppSettings {
-  return {
-    bg: localStorage.getItem("bg") ?? "turquoise",
-    subtitleColor: localStorage.getItem("subtitleColor") ?? "navy",
-    text: localStorage.getItem("text") ?? "navy",
-    titleText: localStorage.getItem("titleText") ?? "ATTENTION",
-    subtitleText: localStorage.getItem("subtitleText") ?? "CHECK YOUR ZOOM CHAT",
-    timerMode: (localStorage.getItem("timerMode") as AppSettings["timerMode"]) ?? "off",
-    timerMin: Number(localStorage.getItem("timerMin") ?? "5"),
-    timerSec: Number(localStorage.getItem("timerSec") ?? "0"),
-  };
-}
 
 // Main window should NOT depend on having timer input elements anymore.
 // We store duration in variables for the timer engine.
-let configuredTimerMode: "off" | "countdown" = "off";
+let configuredTimerMode: TimerMode = "off";
+let lastSettings: AppSettings | null = null;
 let configuredDurationMs = 0;
+let configuredPhases: TimerPhase[] = [];
+let flashOnPhaseChange = false;
+let configuredDeadline = "";
+let configuredUrgentMs = 5 * 60 * 1000;
+let configuredAlerts: TimerAlert[] = [];
+let configuredEndAction: TimerAlertEffect = { flash: false, subtitleText: "", bg: "" };
+
+// The OS "reduce motion" setting is honoured on top of whichever profile is chosen
+const reducedMotionQuery = window.matchMedia("(prefers-reduced-motion: reduce)");
+reducedMotionQuery.addEventListener("change", () => {
+  applyTheme();
+  applyTicker();
+});
+
+function applyTheme() {
+  if (!lastSettings) return;
+  setThemeSlot("--app-bg", alertBg || lastSettings.bg);
+  setThemeSlot("--app-text", lastSettings.text);
+  setThemeSlot("--subtitle-color", lastSettings.subtitleColor);
+
+  // Profile slots go last so a profile like max-contrast can override the theme
+  const slots = profileSlots(lastSettings.displayProfile, reducedMotionQuery.matches);
+  for (const [slot, value] of Object.entries(slots)) setThemeSlot(slot, value);
+}
 
 function applySettings(s: AppSettings) {
-  setThemeSlot("--app-bg", s.bg);
-  setThemeSlot("--app-text", s.text);
-  setThemeSlot("--subtitle-color", s.subtitleColor);
+  // A proctor edit to the subtitle or background wins over a timer alert's override
+  if (lastSettings && (s.subtitleText !== lastSettings.subtitleText || s.bg !== lastSettings.bg)) {
+    clearAlertOverrides();
+  }
 
-  setTextContent(s.titleText, s.subtitleText);
+  lastSettings = s;
+  applyTheme();
 
   const newMode = s.timerMode;
   const newDurationMs =
@@ -127,15 +281,35 @@ function applySettings(s: AppSettings) {
 
   const modeChanged = newMode !== configuredTimerMode;
   const durationChanged = newDurationMs !== configuredDurationMs;
+  const phasesChanged = JSON.stringify(s.timerPhases) !== JSON.stringify(configuredPhases);
+  const deadlineChanged = s.timerDeadline !== configuredDeadline;
 
   configuredTimerMode = newMode;
   configuredDurationMs = newDurationMs;
-
+  configuredPhases = s.timerPhases;
+  flashOnPhaseChange = s.flashOnPhaseChange;
+  configuredDeadline = s.timerDeadline;
+  configuredUrgentMs = s.timerUrgentMin * 60 * 1000;
+  configuredAlerts = s.timerAlerts;
+  configuredEndAction = s.timerEndAction;
+
+  if (phasesChanged) phaseIndex = 0;
+  applyMessageText();
+  setQrContent(s.qrText);
+  applyTicker();
+
+  // Whatever the old mode was ticking must not keep running under the new one
+  if (modeChanged) stopInterval();
   setTimerMode(configuredTimerMode);
 
   // Only reset when timer settings changed (not theme)
-  if (configuredTimerMode === "countdown" && (modeChanged || durationChanged)) {
-    resetCountdown();
+  const timerChanged =
+    modeChanged ||
+    (configuredTimerMode === "countdown" && durationChanged) ||
+    (configuredTimerMode === "schedule" && phasesChanged) ||
+    (configuredTimerMode === "deadline" && deadlineChanged);
+  if (configuredTimerMode !== "off" && timerChanged) {
+    resetTimer();
   }
 }
 
@@ -147,6 +321,8 @@ let settingsWin: WebviewWindow | null = null;
 export async function openSettingsWindow() {
   setDebug("openSettingsWindow called");
 
+  // Any Student View can open Settings, so it may already exist without us
+  settingsWin ??= await WebviewWindow.getByLabel("settings");
   if (settingsWin) {
     try {
       await settingsWin.show();
@@ -195,13 +371,74 @@ export async function openSettingsWindow() {
 /* -----------------------------
    Timer engine (MAIN WINDOW)
    Uses configuredDurationMs instead of reading inputs.
+   In schedule mode remainingMs counts down the current phase and the
+   engine advances through configuredPhases on its own.
 ------------------------------ */
 let timerInterval: number | null = null;
 let remainingMs = 0;
+let phaseIndex = 0;
+let elapsedMs = 0;
+let deadlineAt = 0;
+// Absolute anchors while running, so ticks (and reloads) follow the wall clock
+let countdownEndsAt = 0;
+let stopwatchStartedAt = 0;
+
+// Modes that run down to zero, and so get the urgent styling
+function isCountdownMode(mode: TimerMode): boolean {
+  return mode === "countdown" || mode === "schedule" || mode === "deadline";
+}
+
+function currentPhase(): TimerPhase | null {
+  if (configuredTimerMode !== "schedule") return null;
+  return configuredPhases[phaseIndex] ?? null;
+}
+
+// Duration of whatever the timer is counting down right now
+function activeDurationMs(): number {
+  if (configuredTimerMode === "schedule") {
+    const phase = currentPhase();
+    return phase ? phaseDurationMs(phase) : 0;
+  }
+  return configuredDurationMs;
+}
+
+// Every phase's length, in order; a plain countdown is a single phase
+function countdownDurations(): number[] {
+  return configuredTimerMode === "schedule" ? configuredPhases.map(phaseDurationMs) : [configuredDurationMs];
+}
 
-// --- URGENT TIMER THRESHOLD (5 minutes) ---
-const URGENT_MS = 5 * 60 * 1000;
+// A fired alert's subtitle wins over the phase's, which wins over the main one
+function displayedText(): { title: string; subtitle: string } {
+  const phase = currentPhase();
+  return {
+    title: phase?.titleText || lastSettings?.titleText || "",
+    subtitle: alertSubtitle || phase?.subtitleText || lastSettings?.subtitleText || "",
+  };
+}
+
+function applyMessageText() {
+  const { title, subtitle } = displayedText();
+  setTextContent(title, subtitle);
+}
+
+// Moves to the next phase (or wherever a skip lands), carrying any overshoot.
+// Returns false after the last phase.
+function advancePhase(
+  next: CountdownPosition | null = nextPhase(countdownDurations(), { phaseIndex, remainingMs })
+): boolean {
+  if (!next) return false;
+
+  ({ phaseIndex, remainingMs } = next);
+  countdownEndsAt = Date.now() + remainingMs;
+  clearAlertOverrides();
+  applyMessageText();
+  if (flashOnPhaseChange) flash();
+  persistTimerState();
+  reportState(null);
+  return true;
+}
 
+// --- URGENT TIMER THRESHOLD (timerUrgentMin, 0 = off) ---
 function setUrgent(isUrgent: boolean) {
   const display = document.getElementById("timerDisplay");
   if (!display) return;
@@ -210,18 +447,54 @@ function setUrgent(isUrgent: boolean) {
 
 function syncUrgentClass() {
   setUrgent(
-    configuredTimerMode === "countdown" &&
+    isCountdownMode(configuredTimerMode) &&
     remainingMs > 0 &&
-    remainingMs <= URGENT_MS
+    remainingMs <= configuredUrgentMs
   );
 }
 
+// --- TIMER ALERTS (proctor-configured thresholds + end of time) ---
+// Subtitle/background overrides set by the last alert; "" = none.
+let alertSubtitle = "";
+let alertBg = "";
+
+function clearAlertOverrides() {
+  if (!alertSubtitle && !alertBg) return;
+  alertSubtitle = "";
+  alertBg = "";
+  applyTheme();
+  applyMessageText();
+}
+
+function fireAlertEffect(effect: TimerAlertEffect) {
+  if (effect.subtitleText) alertSubtitle = effect.subtitleText;
+  if (effect.bg) alertBg = effect.bg;
+  applyTheme();
+  applyMessageText();
+  if (effect.flash) flash();
+  reportState(null);
+}
+
+// Fires every alert whose threshold lies in (nowMs, prevMs]: i.e. crossed on this tick
+function checkTimerAlerts(prevMs: number, nowMs: number) {
+  if (!isCountdownMode(configuredTimerMode)) return;
+  for (const alert of configuredAlerts) {
+    const at = alert.minutes * 60 * 1000;
+    if (prevMs > at && nowMs <= at) fireAlertEffect(alert);
+  }
+}
+
+function fireEndAction() {
+  fireAlertEffect(configuredEndAction);
+}
+
 function pad2(n: number): string {
   return String(Math.max(0, Math.floor(n))).padStart(2, "0");
 }
 
-function formatMs(ms: number): string {
-  const totalSec = Math.max(0, Math.ceil(ms / 1000));
+// Countdowns round up (00:01 until it's really over); stopwatches round down
+function formatMs(ms: number, round: (n: number) => number = Math.ceil): string {
+  const totalSec = Math.max(0, round(ms / 1000));
   const m = Math.floor(totalSec / 60);
   const s = totalSec % 60;
   return `${pad2(m)}:${pad2(s)}`;
@@ -240,31 +513,44 @@ function setDisplay(text: string, show: boolean) {
   if (!display) return;
   display.textContent = text;
   display.toggleAttribute("hidden", !show);
-  wrap?.classList.toggle("timer-visible", show);
+  if (wrap && wrap.classList.contains("timer-visible") !== show) {
+    wrap.classList.toggle("timer-visible", show);
+    scheduleTextFit();
+  }
+  updateTrayStatus();
 }
 
 function startCountdown() {
-  if (configuredTimerMode !== "countdown") return;
-
-  if (remainingMs <= 0) remainingMs = configuredDurationMs;
+  if (configuredTimerMode !== "countdown" && configuredTimerMode !== "schedule") return;
+
+  if (remainingMs <= 0) {
+    // Finished (or never started): run again from the top
+    phaseIndex = 0;
+    remainingMs = activeDurationMs();
+    clearAlertOverrides();
+    applyMessageText();
+  }
   if (remainingMs <= 0) return;
 
   setDisplay(formatMs(remainingMs), true);
 
-  const lastTick = { t: Date.now() };
+  countdownEndsAt = Date.now() + remainingMs;
   stopInterval();
   timerInterval = window.setInterval(() => {
-    const now = Date.now();
-    const dt = now - lastTick.t;
-    lastTick.t = now;
+    const prevMs = remainingMs;
+    remainingMs = countdownEndsAt - Date.now();
+    checkTimerAlerts(prevMs, remainingMs);
 
-    remainingMs -= dt;
+    // Skip over any zero-length phases in one tick
+    while (remainingMs <= 0 && advancePhase()) { /* next phase */ }
 
     if (remainingMs <= 0) {
       remainingMs = 0;
       setDisplay("00:00", true);
       stopInterval();
       setUrgent(false);   // clear urgent when finished
+      persistTimerState();
+      fireEndAction();
       return;
     }
 
@@ -281,9 +567,12 @@ function pauseCountdown() {
 
 function resetCountdown() {
   stopInterval();
-  remainingMs = configuredDurationMs;
+  phaseIndex = 0;
+  remainingMs = activeDurationMs();
+  clearAlertOverrides();
+  applyMessageText();
 
-  if (configuredTimerMode === "countdown" && remainingMs > 0) {
+  if (configuredTimerMode !== "off" && remainingMs > 0) {
     setDisplay(formatMs(remainingMs), true);
   } else {
     setDisplay("00:00", false);
@@ -292,7 +581,120 @@ function resetCountdown() {
   syncUrgentClass();
 }
 
-function setTimerMode(mode: "off" | "countdown") {
+// Schedule: jump to the next phase (or finish). Countdown: finish now.
+function skipPhase() {
+  if (configuredTimerMode !== "countdown" && configuredTimerMode !== "schedule") return;
+
+  if (!advancePhase(afterSkip(countdownDurations(), phaseIndex))) {
+    remainingMs = 0;
+    stopInterval();
+    setDisplay("00:00", true);
+    setUrgent(false);
+    fireEndAction();
+    return;
+  }
+  setDisplay(formatMs(remainingMs), true);
+  syncUrgentClass();
+}
+
+function extendCountdown(ms: number) {
+  if (configuredTimerMode === "deadline") {
+    deadlineAt = extendDeadline(deadlineAt, ms, Date.now());
+    tickDeadline();
+    return;
+  }
+  if (configuredTimerMode !== "countdown" && configuredTimerMode !== "schedule") return;
+
+  remainingMs = extendPhase(remainingMs, ms);
+  countdownEndsAt = Date.now() + remainingMs;
+  setDisplay(formatMs(remainingMs), remainingMs > 0 || timerInterval !== null);
+  syncUrgentClass();
+}
+
+/* Count-up stopwatch */
+function startStopwatch() {
+  setDisplay(formatMs(elapsedMs, Math.floor), true);
+
+  stopwatchStartedAt = countUpStartedAt(elapsedMs, Date.now());
+  stopInterval();
+  timerInterval = window.setInterval(() => {
+    elapsedMs = countUpElapsedMs(stopwatchStartedAt, Date.now());
+    setDisplay(formatMs(elapsedMs, Math.floor), true);
+  }, 100);
+}
+
+function pauseStopwatch() {
+  stopInterval();
+  setDisplay(formatMs(elapsedMs, Math.floor), true);
+}
+
+function resetStopwatch() {
+  stopInterval();
+  elapsedMs = 0;
+  setDisplay(formatMs(0), true);
+}
+
+/* Wall-clock modes: recomputed from Date.now() every tick, so a suspended
+   or throttled webview is right again on the next tick. */
+function startLiveTicker(tick: () => void) {
+  stopInterval();
+  tick();
+  timerInterval = window.setInterval(tick, 250);
+}
+
+function tickDeadline() {
+  const prevMs = remainingMs;
+  remainingMs = deadlineRemainingMs(deadlineAt, Date.now());
+  setDisplay(formatMs(remainingMs), deadlineAt > 0);
+  syncUrgentClass();
+
+  checkTimerAlerts(prevMs, remainingMs);
+  if (prevMs > 0 && remainingMs === 0) {
+    persistTimerState();
+    fireEndAction();
+  }
+}
+
+function tickClock() {
+  setDisplay(new Date().toLocaleTimeString([], { hour: "numeric", minute: "2-digit" }), true);
+}
+
+/* Mode dispatch for the Start / Pause / Reset commands */
+function startTimer() {
+  if (configuredTimerMode === "countup") startStopwatch();
+  else startCountdown();
+}
+
+function pauseTimer() {
+  if (configuredTimerMode === "countup") pauseStopwatch();
+  else if (configuredTimerMode === "countdown" || configuredTimerMode === "schedule") pauseCountdown();
+}
+
+function resetTimer() {
+  switch (configuredTimerMode) {
+    case "countdown":
+    case "schedule":
+      resetCountdown();
+      break;
+    case "countup":
+      resetStopwatch();
+      break;
+    case "deadline":
+      deadlineAt = resolveDeadline(configuredDeadline);
+      // Seed remainingMs so the first tick doesn't look like a threshold crossing
+      remainingMs = deadlineRemainingMs(deadlineAt, Date.now());
+      clearAlertOverrides();
+      startLiveTicker(tickDeadline);
+      break;
+    case "clock":
+      startLiveTicker(tickClock);
+      break;
+    case "off":
+      break;
+  }
+}
+
+function setTimerMode(mode: TimerMode) {
   const inputs = document.getElementById("timerInputs");
   if (inputs) inputs.toggleAttribute("hidden", mode !== "countdown");
 
@@ -304,11 +706,22 @@ function setTimerMode(mode: "off" | "countdown") {
     return;
   }
 
-  // countdown mode:
+  if (mode === "countup") {
+    if (timerInterval === null) setDisplay(formatMs(elapsedMs, Math.floor), true);
+    return;
+  }
+
+  if (mode === "deadline" || mode === "clock") {
+    // These follow the wall clock; they run whenever the mode is on
+    if (timerInterval === null) resetTimer();
+    return;
+  }
+
+  // countdown / schedule mode:
   // Do NOT reset here. Just ensure something reasonable is shown if idle.
   if (timerInterval === null) {
     // If we have no remaining time yet, initialize to configured duration.
-    if (remainingMs <= 0) remainingMs = configuredDurationMs;
+    if (remainingMs <= 0) remainingMs = activeDurationMs();
 
     if (remainingMs > 0) setDisplay(formatMs(remainingMs), true);
     else setDisplay("00:00", false);
@@ -316,6 +729,305 @@ function setTimerMode(mode: "off" | "countdown") {
 }
 
 
+/* -----------------------------
+   Timer persistence
+   Saved after every command and on the heartbeat; restored once on boot,
+   after the stored settings have been applied.
+------------------------------ */
+function persistTimerState() {
+  const running = timerInterval !== null;
+  writeTimerState(
+    {
+      mode: configuredTimerMode,
+      running,
+      phaseIndex,
+      endsAt: countdownEndsAt,
+      remainingMs: Math.max(0, remainingMs),
+      startedAt: stopwatchStartedAt,
+      elapsedMs,
+      deadlineAt,
+    },
+    viewLabel
+  );
+}
+
+function restoreTimerState() {
+  const saved = readTimerState(viewLabel);
+  // Settings changed the mode since (or nothing saved): keep the fresh reset
+  if (!saved || saved.mode !== configuredTimerMode) return;
+  const now = Date.now();
+
+  switch (saved.mode) {
+    case "countdown":
+    case "schedule": {
+      if (saved.phaseIndex >= Math.max(1, configuredPhases.length)) return;
+      // Phases that ran out while we were gone, without replaying their flashes
+      const caughtUp = catchUp(countdownDurations(), saved, now);
+      ({ phaseIndex, remainingMs } = caughtUp);
+      applyMessageText();
+
+      if (saved.running && remainingMs > 0) {
+        startCountdown();
+      } else {
+        setDisplay(formatMs(remainingMs), remainingMs > 0 || saved.running);
+        syncUrgentClass();
+      }
+      // Time ran out while no view was open: the end action hasn't been seen yet.
+      // Saved as stopped first, so the next reload doesn't fire it again.
+      if (caughtUp.expired) {
+        persistTimerState();
+        fireEndAction();
+      }
+      break;
+    }
+    case "countup":
+      elapsedMs = saved.running ? countUpElapsedMs(saved.startedAt, now) : saved.elapsedMs;
+      if (saved.running) startStopwatch();
+      else pauseStopwatch();
+      break;
+    case "deadline":
+      if (saved.deadlineAt <= 0) return;
+      deadlineAt = saved.deadlineAt;
+      remainingMs = deadlineRemainingMs(deadlineAt, now);
+      startLiveTicker(tickDeadline);
+      if (deadlineExpiredSince(saved, now)) {
+        persistTimerState();
+        fireEndAction();
+      }
+      break;
+    case "off":
+    case "clock":
+      break;
+  }
+}
+
+/* -----------------------------
+   State reports (acks + heartbeat)
+------------------------------ */
+function reportState(ack: string | null) {
+  const { title, subtitle } = displayedText();
+  const phase = currentPhase();
+
+  sendStateReport({
+    view: viewLabel,
+    ack,
+    mode: currentMode,
+    flashing,
+    titleText: title,
+    subtitleText: subtitle,
+    timer: {
+      mode: configuredTimerMode,
+      running: timerInterval !== null,
+      remainingMs: isCountdownMode(configuredTimerMode) ? Math.max(0, remainingMs) : 0,
+      elapsedMs,
+      phase: phase
+        ? { index: phaseIndex, count: configuredPhases.length, name: phase.name }
+        : null,
+    },
+  }).catch(console.error);
+  updateTrayStatus();
+}
+
+/* -----------------------------
+   Tray and remote control (main window only)
+   The status line follows what students see. Quick messages picked from the
+   tray, and text and scenes sent from a remote, go to every Student View, like
+   their other actions.
+------------------------------ */
+function updateTrayStatus() {
+  if (!isMainView) return;
+  const display = document.getElementById("timerDisplay");
+  const clock = display && !display.hidden ? display.textContent ?? "" : "";
+  const mode = flashing ? "Flash" : currentMode === "blank" ? "Blank" : "Live";
+  setTrayStatus(`Attention: ${mode}${clock ? ` · ${clock}` : ""}`, clock).catch(console.error);
+}
+
+function refreshTrayMenu() {
+  syncTrayMenu(readQuickMessages(), readOpenSettingsOnLaunch()).catch(console.error);
+}
+
+// Stored first, so Settings picks the change up when it shows that view. Settles
+// once every view has been sent its settings; failures are only logged.
+function updateAllViews(update: (s: AppSettings) => AppSettings): Promise<void> {
+  const sends = allViews().map((view) => {
+    const next = update(readStoredSettings(view.label));
+    writeStoredSettings(next, view.label);
+    return sendCommand({ type: "settings", settings: next }, view.label).catch(console.error);
+  });
+  return Promise.all(sends).then(() => undefined);
+}
+
+function applyTrayQuickMessage(id: string) {
+  const message = readQuickMessages().find((m) => m.id === id);
+  if (message) void updateAllViews((s) => applyQuickMessage(s, message));
+}
+
+function applyRemoteText(title: string | null, subtitle: string | null) {
+  void updateAllViews((s) => ({ ...s, titleText: title ?? s.titleText, subtitleText: subtitle ?? s.subtitleText }));
+}
+
+function recallRemoteScene(id: string) {
+  const scene = readScenes().find((s) => s.id === id);
+  if (!scene) return;
+  void updateAllViews(() => scene.settings);
+  sendCommand({ type: "setMode", mode: scene.mode }, ALL_VIEWS).catch(console.error);
+}
+
+/* -----------------------------
+   Hotkeys (main window only)
+   Registered here so they last as long as the app, and sent to every Student
+   View like the tray's actions. Settings edits the map and pauses them while it
+   records a new binding.
+------------------------------ */
+const HOTKEY_COMMANDS: Record<HotkeyAction, Command> = {
+  show: { type: "setMode", mode: "message" },
+  blank: { type: "setMode", mode: "blank" },
+  flash: { type: "flash" },
+  timerStart: { type: "timerStart" },
+  timerPause: { type: "timerPause" },
+  timerReset: { type: "timerReset" },
+};
+
+let hotkeysPaused = false;
+let registeredHotkeys: string | null = null;
+let hotkeySync = Promise.resolve();
+
+function runHotkey(id: string) {
+  if (isHotkeyAction(id)) {
+    sendCommand(HOTKEY_COMMANDS[id], ALL_VIEWS).catch(console.error);
+    return;
+  }
+  const message = readQuickMessages().find((m) => quickHotkeyId(m.id) === id);
+  if (message) void updateAllViews((s) => applyQuickMessage(s, message));
+}
+
+async function registerCurrentHotkeys() {
+  const map = hotkeysPaused ? {} : activeHotkeys(readHotkeys(), readQuickMessages().map((m) => m.id));
+  const key = JSON.stringify(map);
+  if (key === registeredHotkeys) return;
+  const conflicts = hotkeyConflicts(map, (id) => id);
+  const failures = await registerHotkeys(map, new Set(conflicts.keys()), runHotkey);
+  // Only once it went through, so a failed attempt is retried on the next sync
+  registeredHotkeys = key;
+  if (!hotkeysPaused) writeHotkeyFailures(failures);
+}
+
+// One at a time, so a quick edit can't interleave two registrations
+function syncHotkeys() {
+  hotkeySync = hotkeySync.then(registerCurrentHotkeys).catch(console.error);
+}
+
+/* -----------------------------
+   Launch options (main window only)
+   From the command line or an attentionscreen:// link, for every Student View.
+   In order: the settings, then the mode, then the start, so the timer starts
+   with the launch's length. Views that open later get the settings from
+   storage and the rest from takePendingLaunch().
+------------------------------ */
+async function applyLaunchOptions(options: LaunchOptions): Promise<LaunchState> {
+  const problems = [...options.errors];
+  const sceneName = options.scene?.toLowerCase();
+  const scene = sceneName === undefined ? undefined : readScenes().find((s) => s.name.toLowerCase() === sceneName);
+  if (sceneName !== undefined && !scene) problems.push(`no scene named "${options.scene}"`);
+  if (problems.length > 0) setDebug(`launch: ${problems.join("; ")}`);
+
+  const { title, subtitle, timerSeconds } = options;
+  if (scene || title !== null || subtitle !== null || timerSeconds !== null) {
+    await updateAllViews((s) => {
+      let next = scene ? scene.settings : s;
+      if (title !== null) next = { ...next, titleText: title };
+      if (subtitle !== null) next = { ...next, subtitleText: subtitle };
+      if (timerSeconds !== null) {
+        next = { ...next, timerMode: "countdown", timerMin: Math.floor(timerSeconds / 60), timerSec: timerSeconds % 60 };
+      }
+      return next;
+    });
+  }
+
+  const mode = options.mode ?? scene?.mode ?? null;
+  if (mode) await sendCommand({ type: "setMode", mode }, ALL_VIEWS).catch(console.error);
+  if (options.start) await sendCommand({ type: "timerStart" }, ALL_VIEWS).catch(console.error);
+  if (options.fullscreen) getCurrentWebviewWindow().setFullscreen(true).catch(console.error);
+  return { mode, start: options.start };
+}
+
+/* -----------------------------
+   Command dispatch
+------------------------------ */
+function applyCommand(cmd: Command, id: string) {
+  switch (cmd.type) {
+    case "settings":
+      setDebug("Settings Changed");
+      applySettings(cmd.settings);
+      break;
+    case "setMode":
+      setMode(cmd.mode);
+      break;
+    case "flash":
+      flash();
+      break;
+    case "timerStart":
+      startTimer();
+      break;
+    case "timerPause":
+      pauseTimer();
+      break;
+    case "timerReset":
+      resetTimer();
+      break;
+    case "timerSkip":
+      skipPhase();
+      break;
+    case "timerExtend":
+      extendCountdown(cmd.ms);
+      break;
+  }
+
+  persistTimerState();
+  reportState(id);
+}
+
+/* -----------------------------
+   Scheduled actions
+   Checked here rather than in Settings, so they run with the panel closed.
+   A content change is stored like a proctor edit, so it survives a restart and
+   the panel's form picks it up.
+------------------------------ */
+const SCHEDULED_CHECK_MS = 1000;
+
+function runScheduledAction(entry: ScheduledAction) {
+  if (lastSettings && (entry.titleText || entry.subtitleText)) {
+    const next: AppSettings = {
+      ...lastSettings,
+      titleText: entry.titleText || lastSettings.titleText,
+      subtitleText: entry.subtitleText || lastSettings.subtitleText,
+    };
+    writeStoredSettings(next, viewLabel);
+    applySettings(next);
+  }
+  if (entry.mode !== "keep") setMode(entry.mode);
+  if (entry.flash) flash();
+}
+
+function checkScheduledActions() {
+  const entries = readScheduledActions();
+  const runs = readScheduledRuns(viewLabel);
+  const due = dueActions(entries, viewLabel, Date.now(), runs);
+  if (due.length === 0) return;
+
+  // Forget runs of deleted entries while we're writing anyway
+  const kept = Object.fromEntries(entries.filter((e) => e.id in runs).map((e) => [e.id, runs[e.id]]));
+  for (const { entry, at } of due) {
+    setDebug(`scheduled ${entry.time}`);
+    runScheduledAction(entry);
+    kept[entry.id] = at;
+  }
+  writeScheduledRuns(viewLabel, kept);
+
+  persistTimerState();
+  reportState(null);
+}
+
 /* -----------------------------
    Bootstrap
 ------------------------------ */
@@ -327,6 +1039,17 @@ window.addEventListener("DOMContentLoaded", async () => {
     void openSettingsWindow();
   });
 
+  window.addEventListener("resize", scheduleTextFit);
+
+  // The scroll distance depends on the window width; restart once resizing settles
+  let tickerResize: number | undefined;
+  window.addEventListener("resize", () => {
+    window.clearTimeout(tickerResize);
+    tickerResize = window.setTimeout(() => applyTicker(true), 200);
+  });
+  // Sizes measured with a fallback font would be off once the real one loads
+  void document.fonts.ready.then(scheduleTextFit);
+
   // Cmd/Ctrl + , opens settings
   document.addEventListener("keydown", (e) => {
     if ((e.ctrlKey || e.metaKey) && e.key === ",") {
@@ -335,21 +1058,89 @@ window.addEventListener("DOMContentLoaded", async () => {
     }
   });
 
-  // Apply stored settings on startup
-  applySettings(readStoredSettings());
+  // Apply stored settings on startup, then pick the timer up where it was
+  applySettings(readStoredSettings(viewLabel));
+  restoreTimerState();
+
+  // An extra Student View opened right after a launch does what the launch said
+  const pending = takePendingLaunch(viewLabel);
+  if (pending) {
+    if (pending.mode) setMode(pending.mode);
+    if (pending.start) startTimer();
+    persistTimerState();
+  }
+
+  // All Settings -> Student View traffic arrives as validated commands
+  await listenForCommands(viewLabel, applyCommand, (error) => setDebug(`rejected command: ${error}`));
 
-  await listen("timer:start", () => startCountdown());
-  await listen("timer:pause", () => pauseCountdown());
-  await listen("timer:reset", () => resetCountdown());
+  checkScheduledActions();
+  window.setInterval(checkScheduledActions, SCHEDULED_CHECK_MS);
+
+  // Heartbeat so the control panel can tell "quiet" from "gone"
+  reportState(null);
+  window.setInterval(() => {
+    persistTimerState();
+    reportState(null);
+  }, HEARTBEAT_MS);
+
+  // The rest is the main window's job: launch options, the app menu, Settings on
+  // launch, the tray, the remote control and bringing back the extra Student Views
+  // from last time
+  if (!isMainView) return;
+
+  // First, so the extra Student Views open with what the launch set
+  const launch = await takeLaunchOptions().catch((e) => {
+    setDebug(`launch options: ${formatTauriError(e)}`);
+    return null;
+  });
+  if (launch) {
+    const state = await applyLaunchOptions(launch);
+    // The extra Student Views below aren't listening yet
+    if (state.mode || state.start) {
+      for (const view of readStudentViews()) writePendingLaunch(view.label, state);
+    }
+  }
+  await listenForLaunch((options) => void applyLaunchOptions(options));
 
   await listen("menu:open-settings", () => {
     void openSettingsWindow();
   });
 
-  // Listen for live changes from Settings window
-  await listen<AppSettings>("settings:changed", (event) => {
-    setDebug("Settings Changed");
-    applySettings(event.payload);
+  for (const view of readStudentViews()) {
+    openStudentView(view).catch((e) => setDebug(`couldn't reopen ${view.name}: ${formatTauriError(e)}`));
+  }
+
+  await listenForTray({
+    onQuickMessage: applyTrayQuickMessage,
+    onToggleSettingsOnLaunch: () => {
+      writeOpenSettingsOnLaunch(!readOpenSettingsOnLaunch());
+      refreshTrayMenu();
+    },
+  });
+  refreshTrayMenu();
+
+  await listenForHotkeyPause((paused) => {
+    hotkeysPaused = paused;
+    syncHotkeys();
+  });
+  syncHotkeys();
+
+  await listenForRemote({ onSetText: applyRemoteText, onRecallScene: recallRemoteScene });
+  syncRemoteScenes(readScenes()).catch(console.error);
+  const remote = readRemoteConfig();
+  if (remote.enabled) {
+    startRemote(remote).catch((e) => setDebug(`remote control: ${formatTauriError(e)}`));
+  }
+  const control = readControlConfig();
+  if (control.enabled) {
+    startControl(control).catch((e) => setDebug(`control socket: ${formatTauriError(e)}`));
+  }
+
+  // Quick messages, scenes and hotkeys are edited in Settings
+  window.addEventListener("storage", () => {
+    refreshTrayMenu();
+    syncHotkeys();
+    syncRemoteScenes(readScenes()).catch(console.error);
   });
 
 //   await listen("debug:ping", (e) => {
@@ -358,13 +1149,16 @@ window.addEventListener("DOMContentLoaded", async () => {
 // });
 
   // Optional: if you kept timer buttons in the main window, wire them:
-  document.getElementById("timerStart")?.addEventListener("click", startCountdown);
-  document.getElementById("timerPause")?.addEventListener("click", pauseCountdown);
-  document.getElementById("timerReset")?.addEventListener("click", resetCountdown);
+  document.getElementById("timerStart")?.addEventListener("click", startTimer);
+  document.getElementById("timerPause")?.addEventListener("click", pauseTimer);
+  document.getElementById("timerReset")?.addEventListener("click", resetTimer);
 
 
-  // Open Settings on launch (next tick so main window is ready)
-  setTimeout(() => {
-    void openSettingsWindow();
-  }, 0);
+  // Open Settings on launch (next tick so main window is ready), unless the
+  // proctor runs from the tray or the launch said --no-settings
+  if (readOpenSettingsOnLaunch() && !launch?.noSettings) {
+    setTimeout(() => {
+      void openSettingsWindow();
+    }, 0);
+  }
 });
@@ -0,0 +1,34 @@
+// src/palette.ts
+// PCC brand palette shared by the Settings window and the Student View.
+// Keys are the color tokens sent over the wire; cssVar names and hex values match styles.css.
+
+export type PCCEntry = { label: string; cssVar: string; hex: string };
+
+export const PCC: Record<string, PCCEntry> = {
+  turquoise: { label: "PCC Turquoise", cssVar: "--pcc-turquoise", hex: "#008EAA" },
+  navy: { label: "PCC Navy", cssVar: "--pcc-navy", hex: "#003865" },
+  white: { label: "White", cssVar: "--pcc-white", hex: "#FFFFFF" },
+  purple: { label: "Purple", cssVar: "--pcc-purple", hex: "#3D2B57" },
+  "apple-green": { label: "Apple Green", cssVar: "--pcc-apple-green", hex: "#A8AD00" },
+  "seafoam-green": { label: "Seafoam Green", cssVar: "--pcc-seafoam-green", hex: "#ADC8B8" },
+  "dark-tan": { label: "Dark Tan", cssVar: "--pcc-dark-tan", hex: "#8A837A" },
+  "light-tan": { label: "Light Tan", cssVar: "--pcc-light-tan", hex: "#C3BEB5" },
+  "salmon-pink": { label: "Salmon Pink", cssVar: "--pcc-salmon-pink", hex: "#FF8571" },
+  "golden-yellow": { label: "Golden Yellow", cssVar: "--pcc-golden-yellow", hex: "#EBA904" },
+  "bright-yellow": { label: "Bright Yellow", cssVar: "--pcc-bright-yellow", hex: "#FFE80A" },
+  black: { label: "Black", cssVar: "--pcc-black", hex: "#000000" },
+};
+
+const HEX_RE = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// A color value is either a palette token ("navy") or a literal "#hex".
+export function isColorValue(value: unknown): value is string {
+  return typeof value === "string" && (Object.prototype.hasOwnProperty.call(PCC, value) || HEX_RE.test(value));
+}
+
+// "#rgb" / "#rrggbb" for any color value, or null if it isn't one
+export function colorHex(value: string): string | null {
+  if (Object.prototype.hasOwnProperty.call(PCC, value)) return PCC[value].hex;
+  if (!HEX_RE.test(value)) return null;
+  return value.length === 4 ? `#${[...value.slice(1)].map((c) => c + c).join("")}` : value;
+}
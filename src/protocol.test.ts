@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_ALERTS,
+  PROTOCOL_VERSION,
+  parseCommand,
+  parseStateReport,
+  validateAlert,
+  validateAlertEffect,
+  validateSettings,
+} from "./protocol";
+import { defaultSettings } from "./storage";
+
+const settings = defaultSettings();
+
+const phase = { name: "Reading", minutes: 10, seconds: 0, titleText: "", subtitleText: "" };
+
+const envelope = (fields: Record<string, unknown>) => ({ v: PROTOCOL_VERSION, id: "a-1", target: "main", ...fields });
+
+describe("parseCommand", () => {
+  it("accepts every command type", () => {
+    expect(parseCommand(envelope({ type: "settings", settings }))).toEqual({
+      ok: true,
+      value: { type: "settings", settings },
+    });
+    expect(parseCommand(envelope({ type: "setMode", mode: "blank" }))).toEqual({
+      ok: true,
+      value: { type: "setMode", mode: "blank" },
+    });
+    for (const type of ["flash", "timerStart", "timerPause", "timerReset", "timerSkip"]) {
+      expect(parseCommand(envelope({ type }))).toEqual({ ok: true, value: { type } });
+    }
+    expect(parseCommand(envelope({ type: "timerExtend", ms: -60_000 }))).toEqual({
+      ok: true,
+      value: { type: "timerExtend", ms: -60_000 },
+    });
+  });
+
+  it("drops envelope fields and extras", () => {
+    const parsed = parseCommand(envelope({ type: "flash", extra: true }));
+    expect(parsed).toEqual({ ok: true, value: { type: "flash" } });
+  });
+
+  it("rejects another protocol version", () => {
+    const parsed = parseCommand({ ...envelope({ type: "flash" }), v: PROTOCOL_VERSION - 1 });
+    expect(parsed.ok).toBe(false);
+    if (!parsed.ok) expect(parsed.error).toContain("protocol version");
+  });
+
+  it("rejects envelopes without an id or target", () => {
+    expect(parseCommand({ v: PROTOCOL_VERSION, target: "main", type: "flash" })).toEqual({
+      ok: false,
+      error: "missing command id",
+    });
+    expect(parseCommand({ v: PROTOCOL_VERSION, id: "a-1", type: "flash" })).toEqual({
+      ok: false,
+      error: "missing command target",
+    });
+    expect(parseCommand("flash").ok).toBe(false);
+  });
+
+  it("rejects unknown types and bad fields", () => {
+    expect(parseCommand(envelope({ type: "reboot" })).ok).toBe(false);
+    expect(parseCommand(envelope({ type: "setMode", mode: "party" })).ok).toBe(false);
+    expect(parseCommand(envelope({ type: "timerExtend", ms: "60000" })).ok).toBe(false);
+    expect(parseCommand(envelope({ type: "timerExtend", ms: Infinity })).ok).toBe(false);
+    expect(parseCommand(envelope({ type: "timerExtend", ms: 2 * 60 * 60 * 1000 })).ok).toBe(false);
+    expect(parseCommand(envelope({ type: "settings", settings: { bg: "turquoise" } })).ok).toBe(false);
+  });
+});
+
+describe("validateSettings", () => {
+  it("accepts palette tokens and hex colors", () => {
+    expect(validateSettings(settings)).toEqual({ ok: true, value: settings });
+    expect(validateSettings({ ...settings, bg: "#008EAA", text: "#fff" }).ok).toBe(true);
+    expect(validateSettings({ ...settings, timerMode: "deadline", timerDeadline: "23:59" }).ok).toBe(true);
+  });
+
+  it("names the first bad field", () => {
+    const cases: [Record<string, unknown>, string][] = [
+      [{ bg: "sparkly" }, "bg"],
+      [{ titleText: 5 }, "titleText"],
+      [{ timerMode: "egg" }, "timerMode"],
+      [{ timerMin: 10000 }, "timerMin"],
+      [{ timerSec: 60 }, "timerSec"],
+      [{ timerSec: 1.5 }, "timerSec"],
+      [{ timerDeadline: "24:00" }, "timerDeadline"],
+      [{ displayProfile: "loud" }, "displayProfile"],
+      [{ flashPattern: "disco" }, "flashPattern"],
+      [{ flashCycleMs: 100 }, "flashCycleMs"],
+      [{ qrText: "x".repeat(1001) }, "qrText"],
+      [{ tickerSpeed: 5 }, "tickerSpeed"],
+      [{ tickerItems: [{ text: "hi" }] }, "tickerItems[0].paused"],
+      [{ timerPhases: "none" }, "timerPhases"],
+      [{ timerPhases: [{ ...phase, seconds: 60 }] }, "timerPhases[0].seconds"],
+    ];
+    for (const [change, field] of cases) {
+      const parsed = validateSettings({ ...settings, ...change });
+      expect(parsed.ok, field).toBe(false);
+      if (!parsed.ok) expect(parsed.error.startsWith(field), parsed.error).toBe(true);
+    }
+  });
+
+  it("keeps only known fields", () => {
+    const parsed = validateSettings({ ...settings, surprise: 1 });
+    expect(parsed).toEqual({ ok: true, value: settings });
+  });
+});
+
+describe("parseStateReport", () => {
+  const report = {
+    v: PROTOCOL_VERSION,
+    view: "main",
+    ack: null,
+    mode: "message",
+    flashing: false,
+    titleText: "ATTENTION",
+    subtitleText: "",
+    timer: { mode: "countdown", running: true, remainingMs: 1000, elapsedMs: 0, phase: null },
+  };
+
+  it("accepts a heartbeat and an ack", () => {
+    expect(parseStateReport(report).ok).toBe(true);
+    expect(parseStateReport({ ...report, ack: "a-1" }).ok).toBe(true);
+  });
+
+  it("rejects a malformed timer", () => {
+    expect(parseStateReport({ ...report, timer: { ...report.timer, remainingMs: NaN } }).ok).toBe(false);
+    expect(parseStateReport({ ...report, timer: null }).ok).toBe(false);
+  });
+});
+
+describe("timer alerts", () => {
+  const alert = { minutes: 5, flash: true, subtitleText: "5 MINUTES REMAINING", bg: "" };
+
+  it("accepts thresholds with any mix of effects", () => {
+    expect(validateAlert(alert, 0)).toEqual({ ok: true, value: alert });
+    expect(validateAlert({ ...alert, flash: false, subtitleText: "", bg: "turquoise" }, 0).ok).toBe(true);
+    expect(validateAlert({ ...alert, bg: "#c00" }, 0).ok).toBe(true);
+  });
+
+  it("wants a whole number of minutes from 1", () => {
+    for (const minutes of [0, -1, 2.5, 10000, "5"]) {
+      const parsed = validateAlert({ ...alert, minutes }, 3);
+      expect(parsed).toEqual({ ok: false, error: "timerAlerts[3].minutes: expected 1–9999" });
+    }
+  });
+
+  it("rejects unknown background colors", () => {
+    const parsed = validateAlert({ ...alert, bg: "sparkly" }, 0);
+    expect(parsed.ok).toBe(false);
+    if (!parsed.ok) expect(parsed.error).toBe('timerAlerts[0].bg: unknown color "sparkly"');
+  });
+
+  it("checks the end action like an alert without minutes", () => {
+    const { minutes: _, ...effect } = alert;
+    expect(validateAlertEffect(effect, "timerEndAction")).toEqual({ ok: true, value: effect });
+    expect(validateAlertEffect({ ...effect, flash: "yes" }, "timerEndAction")).toEqual({
+      ok: false,
+      error: "timerEndAction.flash: expected boolean",
+    });
+  });
+
+  it("limits how many a timer has", () => {
+    const alerts = Array.from({ length: MAX_ALERTS }, (_, i) => ({ ...alert, minutes: i + 1 }));
+    expect(validateSettings({ ...settings, timerAlerts: alerts }).ok).toBe(true);
+    const tooMany = validateSettings({ ...settings, timerAlerts: [...alerts, alert] });
+    expect(tooMany.ok).toBe(false);
+    const broken = validateSettings({ ...settings, timerEndAction: null });
+    expect(broken).toEqual({ ok: false, error: "timerEndAction: not an object" });
+  });
+});
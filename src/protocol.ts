@@ -0,0 +1,483 @@
+// src/protocol.ts
+// Typed, versioned command channel between the Settings window and the Student View.
+//
+// Every command travels on a single event (COMMAND_EVENT) as an envelope:
+//   { v: PROTOCOL_VERSION, id, target, type: "...", ...fields }
+// `target` is a Student View window label, or ALL_VIEWS for every one of them;
+// each Student View ignores commands meant for another window. It validates the
+// rest before applying it, so a stale build or a malformed payload is rejected
+// and logged instead of half-applied.
+//
+// In the other direction each Student View publishes a StateReport on STATE_EVENT
+// after every applied command (acknowledging its id) and on a heartbeat, so the
+// control panel can show what students actually see in each window.
+
+import { emit, listen, type UnlistenFn } from "@tauri-apps/api/event";
+import { MAX_FLASH_CYCLE_MS, MAX_FLASH_REPEATS, MIN_FLASH_CYCLE_MS } from "./flash";
+import { isColorValue } from "./palette";
+
+// 2: envelopes carry a target, reports name their window
+export const PROTOCOL_VERSION = 2;
+export const COMMAND_EVENT = "attention:command";
+export const STATE_EVENT = "attention:state";
+
+// Student View reports at least this often; the panel treats silence well past it as a disconnect.
+export const HEARTBEAT_MS = 2000;
+
+// Command target that every Student View window accepts
+export const ALL_VIEWS = "*";
+
+/* -----------------------------
+   Types
+------------------------------ */
+// countdown/schedule count down from a duration; deadline counts down to a wall-clock time;
+// countup is a stopwatch; clock just shows the time of day.
+export type TimerMode = "off" | "countdown" | "schedule" | "deadline" | "countup" | "clock";
+export type DisplayMode = "blank" | "message";
+// How the Student View signals urgency and flashes, see displayProfiles.ts
+export type DisplayProfile = "standard" | "colorblind" | "reduced-motion" | "max-contrast";
+// How Flash looks, see flash.ts
+export type FlashPattern = "pulse" | "border" | "invert" | "strobe";
+
+// One step of a schedule ("Reading time", "Writing time", ...).
+// Empty titleText/subtitleText keep the main title/subtitle on screen.
+export type TimerPhase = {
+  name: string;
+  minutes: number;
+  seconds: number;
+  titleText: string;
+  subtitleText: string;
+};
+
+export const MAX_PHASES = 20;
+
+// What the Student View does when a timer alert fires. Empty strings leave
+// the subtitle / background as they are.
+export type TimerAlertEffect = {
+  flash: boolean;
+  subtitleText: string;
+  bg: string;
+};
+
+// Fires once as the countdown crosses `minutes` remaining
+export type TimerAlert = TimerAlertEffect & { minutes: number };
+
+export const MAX_ALERTS = 10;
+
+// Well inside what a QR code holds at error correction level M
+export const MAX_QR_TEXT = 1000;
+
+// One announcement in the ticker strip; paused items are kept but not shown
+export type TickerItem = {
+  text: string;
+  paused: boolean;
+};
+
+export const MAX_TICKER_ITEMS = 20;
+export const MAX_TICKER_TEXT = 200;
+// Scroll speed bounds, in pixels per second
+export const MIN_TICKER_SPEED = 20;
+export const MAX_TICKER_SPEED = 400;
+
+export type AppSettings = {
+  bg: string;
+  titleText: string;
+  text: string;
+  subtitleText: string;
+  subtitleColor: string;
+  timerMode: TimerMode;
+  timerMin: number;
+  timerSec: number;
+  timerPhases: TimerPhase[];
+  flashOnPhaseChange: boolean;
+  // "HH:MM" (24h) for deadline mode, "" when unset
+  timerDeadline: string;
+  // .timer-urgent styling under this many minutes; 0 turns it off
+  timerUrgentMin: number;
+  timerAlerts: TimerAlert[];
+  timerEndAction: TimerAlertEffect;
+  displayProfile: DisplayProfile;
+  flashPattern: FlashPattern;
+  // one on/off cycle; validated to stay under 3 flashes per second
+  flashCycleMs: number;
+  flashRepeats: number;
+  // URL or text shown as a QR code under the message; "" shows none
+  qrText: string;
+  tickerOn: boolean;
+  tickerSpeed: number;
+  tickerItems: TickerItem[];
+};
+
+export type Command =
+  | { type: "settings"; settings: AppSettings }
+  | { type: "setMode"; mode: DisplayMode }
+  | { type: "flash" }
+  | { type: "timerStart" }
+  | { type: "timerPause" }
+  | { type: "timerReset" }
+  | { type: "timerSkip" }
+  | { type: "timerExtend"; ms: number };
+
+export type CommandEnvelope = Command & { v: number; id: string; target: string };
+
+export type StateReport = {
+  v: number;
+  // label of the reporting Student View window
+  view: string;
+  // id of the command this report acknowledges, null for heartbeats
+  ack: string | null;
+  mode: DisplayMode;
+  flashing: boolean;
+  titleText: string;
+  subtitleText: string;
+  timer: {
+    mode: TimerMode;
+    running: boolean;
+    remainingMs: number;
+    // countup mode only
+    elapsedMs: number;
+    // schedule mode only
+    phase: { index: number; count: number; name: string } | null;
+  };
+};
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const TIMER_MODES: readonly TimerMode[] = ["off", "countdown", "schedule", "deadline", "countup", "clock"];
+
+export function isTimerMode(v: unknown): v is TimerMode {
+  return TIMER_MODES.includes(v as TimerMode);
+}
+
+const DISPLAY_PROFILES: readonly DisplayProfile[] = ["standard", "colorblind", "reduced-motion", "max-contrast"];
+
+export function isDisplayProfile(v: unknown): v is DisplayProfile {
+  return DISPLAY_PROFILES.includes(v as DisplayProfile);
+}
+
+const FLASH_PATTERNS: readonly FlashPattern[] = ["pulse", "border", "invert", "strobe"];
+
+export function isFlashPattern(v: unknown): v is FlashPattern {
+  return FLASH_PATTERNS.includes(v as FlashPattern);
+}
+
+export const DEADLINE_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// timerExtend accepts up to an hour either way per command
+const MAX_EXTEND_MS = 60 * 60 * 1000;
+const DISPLAY_MODES: readonly DisplayMode[] = ["blank", "message"];
+
+/* -----------------------------
+   Sending
+------------------------------ */
+let commandSeq = 0;
+const senderId = Math.random().toString(36).slice(2, 8);
+
+export function nextCommandId(): string {
+  commandSeq += 1;
+  return `${senderId}-${commandSeq}`;
+}
+
+// Resolves with the envelope id so callers can match the Student View's ack.
+// Pass an id from nextCommandId() to register it before the ack can arrive.
+export async function sendCommand(cmd: Command, target: string, id = nextCommandId()): Promise<string> {
+  const envelope: CommandEnvelope = { v: PROTOCOL_VERSION, id, target, ...cmd };
+  await emit(COMMAND_EVENT, envelope);
+  return envelope.id;
+}
+
+export function sendStateReport(report: Omit<StateReport, "v">): Promise<void> {
+  const payload: StateReport = { v: PROTOCOL_VERSION, ...report };
+  return emit(STATE_EVENT, payload);
+}
+
+/* -----------------------------
+   Validation
+------------------------------ */
+export function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isWholeNumber(v: unknown, min: number, max: number): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v >= min && v <= max;
+}
+
+export function validatePhase(raw: unknown, index: number): ParseResult<TimerPhase> {
+  const where = `timerPhases[${index}]`;
+  if (!isRecord(raw)) return { ok: false, error: `${where}: not an object` };
+
+  for (const key of ["name", "titleText", "subtitleText"] as const) {
+    if (typeof raw[key] !== "string") return { ok: false, error: `${where}.${key}: expected string` };
+  }
+  if (!isWholeNumber(raw.minutes, 0, 9999)) {
+    return { ok: false, error: `${where}.minutes: expected 0–9999` };
+  }
+  if (!isWholeNumber(raw.seconds, 0, 59)) {
+    return { ok: false, error: `${where}.seconds: expected 0–59` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      name: raw.name as string,
+      minutes: raw.minutes as number,
+      seconds: raw.seconds as number,
+      titleText: raw.titleText as string,
+      subtitleText: raw.subtitleText as string,
+    },
+  };
+}
+
+export function validateAlertEffect(raw: unknown, where: string): ParseResult<TimerAlertEffect> {
+  if (!isRecord(raw)) return { ok: false, error: `${where}: not an object` };
+
+  if (typeof raw.flash !== "boolean") return { ok: false, error: `${where}.flash: expected boolean` };
+  if (typeof raw.subtitleText !== "string") {
+    return { ok: false, error: `${where}.subtitleText: expected string` };
+  }
+  if (!(raw.bg === "" || isColorValue(raw.bg))) {
+    return { ok: false, error: `${where}.bg: unknown color ${JSON.stringify(raw.bg)}` };
+  }
+
+  return { ok: true, value: { flash: raw.flash, subtitleText: raw.subtitleText, bg: raw.bg as string } };
+}
+
+export function validateAlert(raw: unknown, index: number): ParseResult<TimerAlert> {
+  const where = `timerAlerts[${index}]`;
+  const effect = validateAlertEffect(raw, where);
+  if (!effect.ok) return effect;
+
+  const minutes = (raw as Record<string, unknown>).minutes;
+  if (!isWholeNumber(minutes, 1, 9999)) return { ok: false, error: `${where}.minutes: expected 1–9999` };
+
+  return { ok: true, value: { ...effect.value, minutes } };
+}
+
+export function validateTickerItem(raw: unknown, index: number): ParseResult<TickerItem> {
+  const where = `tickerItems[${index}]`;
+  if (!isRecord(raw)) return { ok: false, error: `${where}: not an object` };
+  if (typeof raw.text !== "string" || raw.text.length > MAX_TICKER_TEXT) {
+    return { ok: false, error: `${where}.text: expected a string of at most ${MAX_TICKER_TEXT} characters` };
+  }
+  if (typeof raw.paused !== "boolean") return { ok: false, error: `${where}.paused: expected boolean` };
+  return { ok: true, value: { text: raw.text, paused: raw.paused } };
+}
+
+export function validateList<T>(
+  raw: unknown,
+  key: string,
+  max: number,
+  validateItem: (item: unknown, index: number) => ParseResult<T>
+): ParseResult<T[]> {
+  if (!Array.isArray(raw) || raw.length > max) {
+    return { ok: false, error: `${key}: expected an array of at most ${max}` };
+  }
+  const items: T[] = [];
+  for (const [i, item] of raw.entries()) {
+    const parsed = validateItem(item, i);
+    if (!parsed.ok) return parsed;
+    items.push(parsed.value);
+  }
+  return { ok: true, value: items };
+}
+
+export function validateSettings(raw: unknown): ParseResult<AppSettings> {
+  if (!isRecord(raw)) return { ok: false, error: "settings is not an object" };
+
+  for (const key of ["bg", "text", "subtitleColor"] as const) {
+    if (!isColorValue(raw[key])) {
+      return { ok: false, error: `${key}: unknown color ${JSON.stringify(raw[key])}` };
+    }
+  }
+  for (const key of ["titleText", "subtitleText"] as const) {
+    if (typeof raw[key] !== "string") return { ok: false, error: `${key}: expected string` };
+  }
+  if (typeof raw.qrText !== "string" || raw.qrText.length > MAX_QR_TEXT) {
+    return { ok: false, error: `qrText: expected a string of at most ${MAX_QR_TEXT} characters` };
+  }
+  if (typeof raw.tickerOn !== "boolean") return { ok: false, error: "tickerOn: expected boolean" };
+  if (!isWholeNumber(raw.tickerSpeed, MIN_TICKER_SPEED, MAX_TICKER_SPEED)) {
+    return {
+      ok: false,
+      error: `tickerSpeed: expected ${MIN_TICKER_SPEED}–${MAX_TICKER_SPEED}, got ${JSON.stringify(raw.tickerSpeed)}`,
+    };
+  }
+  const tickerItems = validateList(raw.tickerItems, "tickerItems", MAX_TICKER_ITEMS, validateTickerItem);
+  if (!tickerItems.ok) return tickerItems;
+  if (!isTimerMode(raw.timerMode)) {
+    return { ok: false, error: `timerMode: unknown mode ${JSON.stringify(raw.timerMode)}` };
+  }
+  if (!isWholeNumber(raw.timerMin, 0, 9999)) {
+    return { ok: false, error: `timerMin: expected 0–9999, got ${JSON.stringify(raw.timerMin)}` };
+  }
+  if (!isWholeNumber(raw.timerSec, 0, 59)) {
+    return { ok: false, error: `timerSec: expected 0–59, got ${JSON.stringify(raw.timerSec)}` };
+  }
+  const timerPhases = validateList(raw.timerPhases, "timerPhases", MAX_PHASES, validatePhase);
+  if (!timerPhases.ok) return timerPhases;
+  if (typeof raw.flashOnPhaseChange !== "boolean") {
+    return { ok: false, error: "flashOnPhaseChange: expected boolean" };
+  }
+  if (typeof raw.timerDeadline !== "string" || !(raw.timerDeadline === "" || DEADLINE_RE.test(raw.timerDeadline))) {
+    return { ok: false, error: `timerDeadline: expected "HH:MM", got ${JSON.stringify(raw.timerDeadline)}` };
+  }
+  if (!isWholeNumber(raw.timerUrgentMin, 0, 9999)) {
+    return { ok: false, error: `timerUrgentMin: expected 0–9999, got ${JSON.stringify(raw.timerUrgentMin)}` };
+  }
+  const timerAlerts = validateList(raw.timerAlerts, "timerAlerts", MAX_ALERTS, validateAlert);
+  if (!timerAlerts.ok) return timerAlerts;
+  const timerEndAction = validateAlertEffect(raw.timerEndAction, "timerEndAction");
+  if (!timerEndAction.ok) return timerEndAction;
+  if (!isDisplayProfile(raw.displayProfile)) {
+    return { ok: false, error: `displayProfile: unknown profile ${JSON.stringify(raw.displayProfile)}` };
+  }
+  if (!isFlashPattern(raw.flashPattern)) {
+    return { ok: false, error: `flashPattern: unknown pattern ${JSON.stringify(raw.flashPattern)}` };
+  }
+  if (!isWholeNumber(raw.flashCycleMs, MIN_FLASH_CYCLE_MS, MAX_FLASH_CYCLE_MS)) {
+    return {
+      ok: false,
+      error: `flashCycleMs: expected ${MIN_FLASH_CYCLE_MS}–${MAX_FLASH_CYCLE_MS}, got ${JSON.stringify(raw.flashCycleMs)}`,
+    };
+  }
+  if (!isWholeNumber(raw.flashRepeats, 1, MAX_FLASH_REPEATS)) {
+    return { ok: false, error: `flashRepeats: expected 1–${MAX_FLASH_REPEATS}, got ${JSON.stringify(raw.flashRepeats)}` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      bg: raw.bg as string,
+      text: raw.text as string,
+      subtitleColor: raw.subtitleColor as string,
+      titleText: raw.titleText as string,
+      subtitleText: raw.subtitleText as string,
+      timerMode: raw.timerMode as TimerMode,
+      timerMin: raw.timerMin as number,
+      timerSec: raw.timerSec as number,
+      timerPhases: timerPhases.value,
+      flashOnPhaseChange: raw.flashOnPhaseChange,
+      timerDeadline: raw.timerDeadline,
+      timerUrgentMin: raw.timerUrgentMin,
+      timerAlerts: timerAlerts.value,
+      timerEndAction: timerEndAction.value,
+      displayProfile: raw.displayProfile,
+      flashPattern: raw.flashPattern,
+      flashCycleMs: raw.flashCycleMs,
+      flashRepeats: raw.flashRepeats,
+      qrText: raw.qrText,
+      tickerOn: raw.tickerOn,
+      tickerSpeed: raw.tickerSpeed,
+      tickerItems: tickerItems.value,
+    },
+  };
+}
+
+function checkVersion(payload: Record<string, unknown>): string | null {
+  return payload.v === PROTOCOL_VERSION
+    ? null
+    : `protocol version ${JSON.stringify(payload.v)} (expected ${PROTOCOL_VERSION})`;
+}
+
+export function parseCommand(payload: unknown): ParseResult<Command> {
+  if (!isRecord(payload)) return { ok: false, error: "payload is not an object" };
+
+  const versionError = checkVersion(payload);
+  if (versionError) return { ok: false, error: versionError };
+  if (typeof payload.id !== "string") return { ok: false, error: "missing command id" };
+  if (typeof payload.target !== "string") return { ok: false, error: "missing command target" };
+
+  switch (payload.type) {
+    case "settings": {
+      const s = validateSettings(payload.settings);
+      return s.ok ? { ok: true, value: { type: "settings", settings: s.value } } : s;
+    }
+    case "setMode":
+      if (!DISPLAY_MODES.includes(payload.mode as DisplayMode)) {
+        return { ok: false, error: `setMode: unknown mode ${JSON.stringify(payload.mode)}` };
+      }
+      return { ok: true, value: { type: "setMode", mode: payload.mode as DisplayMode } };
+    case "flash":
+    case "timerStart":
+    case "timerPause":
+    case "timerReset":
+    case "timerSkip":
+      return { ok: true, value: { type: payload.type } };
+    case "timerExtend":
+      if (
+        typeof payload.ms !== "number" ||
+        !Number.isFinite(payload.ms) ||
+        Math.abs(payload.ms) > MAX_EXTEND_MS
+      ) {
+        return { ok: false, error: `timerExtend: bad ms ${JSON.stringify(payload.ms)}` };
+      }
+      return { ok: true, value: { type: "timerExtend", ms: payload.ms } };
+    default:
+      return { ok: false, error: `unknown command type ${JSON.stringify(payload.type)}` };
+  }
+}
+
+export function parseStateReport(payload: unknown): ParseResult<StateReport> {
+  if (!isRecord(payload)) return { ok: false, error: "report is not an object" };
+
+  const versionError = checkVersion(payload);
+  if (versionError) return { ok: false, error: versionError };
+
+  const timer = payload.timer;
+  if (
+    typeof payload.view !== "string" ||
+    !(payload.ack === null || typeof payload.ack === "string") ||
+    !DISPLAY_MODES.includes(payload.mode as DisplayMode) ||
+    typeof payload.flashing !== "boolean" ||
+    typeof payload.titleText !== "string" ||
+    typeof payload.subtitleText !== "string" ||
+    !isRecord(timer) ||
+    !isTimerMode(timer.mode) ||
+    typeof timer.running !== "boolean" ||
+    typeof timer.remainingMs !== "number" ||
+    !Number.isFinite(timer.remainingMs) ||
+    typeof timer.elapsedMs !== "number" ||
+    !Number.isFinite(timer.elapsedMs) ||
+    !(timer.phase === null || isRecord(timer.phase))
+  ) {
+    return { ok: false, error: "malformed state report" };
+  }
+
+  return { ok: true, value: payload as StateReport };
+}
+
+/* -----------------------------
+   Receiving
+------------------------------ */
+export function listenForStateReports(
+  handler: (report: StateReport) => void
+): Promise<UnlistenFn> {
+  return listen<unknown>(STATE_EVENT, (event) => {
+    const parsed = parseStateReport(event.payload);
+    if (!parsed.ok) {
+      console.warn(`Rejected ${STATE_EVENT}: ${parsed.error}`, event.payload);
+      return;
+    }
+    handler(parsed.value);
+  });
+}
+
+// `view` is the listening window's label; commands for other windows are skipped unchecked
+export function listenForCommands(
+  view: string,
+  handler: (cmd: Command, id: string) => void,
+  onReject: (error: string, payload: unknown) => void = () => {}
+): Promise<UnlistenFn> {
+  return listen<unknown>(COMMAND_EVENT, (event) => {
+    const target = isRecord(event.payload) ? event.payload.target : undefined;
+    if (typeof target === "string" && target !== ALL_VIEWS && target !== view) return;
+
+    const parsed = parseCommand(event.payload);
+    if (!parsed.ok) {
+      console.warn(`Rejected ${COMMAND_EVENT}: ${parsed.error}`, event.payload);
+      onReject(parsed.error, event.payload);
+      return;
+    }
+    handler(parsed.value, (event.payload as CommandEnvelope).id);
+  });
+}
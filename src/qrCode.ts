@@ -0,0 +1,60 @@
+// src/qrCode.ts
+// QR codes for links and instructions, encoded locally (no network) and drawn
+// as SVG. Always dark on white with the standard quiet zone, whatever the
+// theme, so phones can scan them off a shared screen.
+
+import qrcode from "qrcode-generator";
+
+// Blank modules around the code; the spec asks for 4
+const QUIET_ZONE = 4;
+
+// The library writes one byte per char code, so hand it UTF-8 as a binary string
+function utf8Binary(text: string): string {
+  return Array.from(new TextEncoder().encode(text), (b) => String.fromCharCode(b)).join("");
+}
+
+// null when the text doesn't fit in a QR code
+function qrModules(text: string): boolean[][] | null {
+  try {
+    const qr = qrcode(0, "M");
+    qr.addData(utf8Binary(text), "Byte");
+    qr.make();
+    const count = qr.getModuleCount();
+    return Array.from({ length: count }, (_, row) => Array.from({ length: count }, (_, col) => qr.isDark(row, col)));
+  } catch {
+    return null;
+  }
+}
+
+// Draws `text` into `svg`; false (and an empty svg) when it can't be encoded
+export function renderQrCode(svg: SVGSVGElement, text: string): boolean {
+  const modules = text ? qrModules(text) : null;
+  if (!modules) {
+    svg.replaceChildren();
+    return false;
+  }
+
+  const ns = "http://www.w3.org/2000/svg";
+  const size = modules.length + QUIET_ZONE * 2;
+  svg.setAttribute("viewBox", `0 0 ${size} ${size}`);
+  svg.setAttribute("shape-rendering", "crispEdges");
+
+  const background = document.createElementNS(ns, "rect");
+  background.setAttribute("width", String(size));
+  background.setAttribute("height", String(size));
+  background.setAttribute("fill", "#fff");
+
+  // One path for every dark module keeps the DOM small even for long URLs
+  let d = "";
+  modules.forEach((row, y) =>
+    row.forEach((dark, x) => {
+      if (dark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+    })
+  );
+  const path = document.createElementNS(ns, "path");
+  path.setAttribute("d", d);
+  path.setAttribute("fill", "#000");
+
+  svg.replaceChildren(background, path);
+  return true;
+}
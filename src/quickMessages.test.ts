@@ -0,0 +1,100 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_QUICK_MESSAGES,
+  MAX_QUICK_MESSAGES,
+  applyQuickMessage,
+  groupByCategory,
+  readQuickMessages,
+  validateQuickMessage,
+  writeQuickMessages,
+  type QuickMessage,
+} from "./quickMessages";
+import { defaultSettings } from "./storage";
+
+const message = (id: string, category = "General"): QuickMessage => ({
+  id,
+  label: id.toUpperCase(),
+  category,
+  subtitleText: `${id} message`,
+  titleText: "",
+  bg: "",
+  text: "",
+  subtitleColor: "",
+  qrText: "",
+});
+
+beforeEach(() => localStorage.clear());
+
+describe("validateQuickMessage", () => {
+  it("accepts empty colors and known ones", () => {
+    expect(validateQuickMessage(message("chat"), 0)).toEqual({ ok: true, value: message("chat") });
+    const colored = { ...message("chat"), bg: "navy", text: "#fff", subtitleColor: "golden-yellow" };
+    expect(validateQuickMessage(colored, 0)).toEqual({ ok: true, value: colored });
+  });
+
+  it("names the bad field", () => {
+    expect(validateQuickMessage({ ...message("chat"), label: undefined }, 2)).toEqual({
+      ok: false,
+      error: "quickMessages[2].label: expected string",
+    });
+    expect(validateQuickMessage({ ...message("chat"), bg: "sparkly" }, 0)).toEqual({
+      ok: false,
+      error: 'quickMessages[0].bg: unknown color "sparkly"',
+    });
+    expect(validateQuickMessage("CHAT", 0).ok).toBe(false);
+  });
+
+  it("reads entries saved before they had a QR code", () => {
+    const { qrText: _, ...older } = message("chat");
+    expect(validateQuickMessage(older, 0)).toEqual({ ok: true, value: message("chat") });
+    expect(validateQuickMessage({ ...older, qrText: "x".repeat(1001) }, 0).ok).toBe(false);
+  });
+});
+
+describe("readQuickMessages", () => {
+  it("seeds the old buttons until the list is first saved", () => {
+    expect(readQuickMessages()).toEqual(DEFAULT_QUICK_MESSAGES);
+    writeQuickMessages([]);
+    expect(readQuickMessages()).toEqual([]);
+  });
+
+  it("reads back what was written, dropping broken entries", () => {
+    writeQuickMessages([message("chat"), message("mic")]);
+    expect(readQuickMessages()).toEqual([message("chat"), message("mic")]);
+    localStorage.setItem("quickMessages", JSON.stringify([message("chat"), { id: "broken" }]));
+    expect(readQuickMessages()).toEqual([message("chat")]);
+  });
+
+  it("falls back to the defaults on unreadable storage", () => {
+    localStorage.setItem("quickMessages", "{not json");
+    expect(readQuickMessages()).toEqual(DEFAULT_QUICK_MESSAGES);
+  });
+
+  it("keeps at most MAX_QUICK_MESSAGES", () => {
+    writeQuickMessages(Array.from({ length: MAX_QUICK_MESSAGES + 1 }, (_, i) => message(String(i))));
+    expect(readQuickMessages()).toHaveLength(MAX_QUICK_MESSAGES);
+  });
+});
+
+it("groups by category in first-seen order", () => {
+  const groups = groupByCategory([message("a", "Exam"), message("b", " "), message("c", "Exam")]);
+  expect(groups.map(([name, items]) => [name, items.map((m) => m.id)])).toEqual([
+    ["Exam", ["a", "c"]],
+    ["General", ["b"]],
+  ]);
+});
+
+it("shows a message over the current settings, keeping what it leaves empty", () => {
+  const current = { ...defaultSettings(), titleText: "EXAM", qrText: "https://example.edu" };
+  expect(applyQuickMessage(current, message("chat"))).toEqual({ ...current, subtitleText: "chat message" });
+  const styled = { ...message("chat"), titleText: "STOP", bg: "navy", text: "white", qrText: "https://x.test" };
+  expect(applyQuickMessage(current, styled)).toEqual({
+    ...current,
+    titleText: "STOP",
+    subtitleText: "chat message",
+    bg: "navy",
+    text: "white",
+    qrText: "https://x.test",
+  });
+});
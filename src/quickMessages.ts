@@ -0,0 +1,136 @@
+// src/quickMessages.ts
+// The proctor's library of canned messages behind the Subtitle card's quick buttons.
+// Each entry sets the subtitle and may also set the title, colors and QR code;
+// empty strings leave those fields as they are.
+
+import { isColorValue } from "./palette";
+import { MAX_QR_TEXT, isRecord, type AppSettings, type ParseResult } from "./protocol";
+
+const QUICK_MESSAGES_KEY = "quickMessages";
+
+export const MAX_QUICK_MESSAGES = 48;
+
+export type QuickMessage = {
+  id: string;
+  // button text, e.g. "CHAT"
+  label: string;
+  category: string;
+  subtitleText: string;
+  titleText: string;
+  bg: string;
+  text: string;
+  subtitleColor: string;
+  qrText: string;
+};
+
+function preset(label: string, subtitleText: string): QuickMessage {
+  return {
+    id: `default-${label.toLowerCase()}`,
+    label,
+    category: "General",
+    subtitleText,
+    titleText: "",
+    bg: "",
+    text: "",
+    subtitleColor: "",
+    qrText: "",
+  };
+}
+
+// What the Subtitle card shipped with before the library was editable
+export const DEFAULT_QUICK_MESSAGES: QuickMessage[] = [
+  preset("CHAT", "CHECK YOUR ZOOM CHAT"),
+  preset("CAMERA", "TURN ON YOUR CAMERA"),
+  preset("UNMUTE", "UNMUTE YOUR MICROPHONE"),
+  preset("HAND", "RAISE YOUR HAND"),
+  preset("BEGIN", "YOU MAY BEGIN"),
+  preset("WAIT", "ONE MOMENT PLEASE"),
+];
+
+export function newQuickMessageId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function validateQuickMessage(raw: unknown, index: number): ParseResult<QuickMessage> {
+  const where = `quickMessages[${index}]`;
+  if (!isRecord(raw)) return { ok: false, error: `${where}: not an object` };
+
+  for (const key of ["id", "label", "category", "subtitleText", "titleText"] as const) {
+    if (typeof raw[key] !== "string") return { ok: false, error: `${where}.${key}: expected string` };
+  }
+  for (const key of ["bg", "text", "subtitleColor"] as const) {
+    if (raw[key] !== "" && !isColorValue(raw[key])) {
+      return { ok: false, error: `${where}.${key}: unknown color ${JSON.stringify(raw[key])}` };
+    }
+  }
+  // Added after the library shipped, so older entries may not have it
+  const qrText = raw.qrText ?? "";
+  if (typeof qrText !== "string" || qrText.length > MAX_QR_TEXT) {
+    return { ok: false, error: `${where}.qrText: expected a string of at most ${MAX_QR_TEXT} characters` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: raw.id as string,
+      label: raw.label as string,
+      category: raw.category as string,
+      subtitleText: raw.subtitleText as string,
+      titleText: raw.titleText as string,
+      bg: raw.bg as string,
+      text: raw.text as string,
+      subtitleColor: raw.subtitleColor as string,
+      qrText,
+    },
+  };
+}
+
+function defaultQuickMessages(): QuickMessage[] {
+  return DEFAULT_QUICK_MESSAGES.map((m) => ({ ...m }));
+}
+
+export function readQuickMessages(): QuickMessage[] {
+  const json = localStorage.getItem(QUICK_MESSAGES_KEY);
+  // Never saved yet: seed with the old hard-coded buttons. An empty array is a real choice.
+  if (json === null) return defaultQuickMessages();
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (!Array.isArray(raw)) return defaultQuickMessages();
+    return raw
+      .slice(0, MAX_QUICK_MESSAGES)
+      .map(validateQuickMessage)
+      .flatMap((m) => (m.ok ? [m.value] : []));
+  } catch {
+    return defaultQuickMessages();
+  }
+}
+
+export function writeQuickMessages(messages: QuickMessage[]) {
+  localStorage.setItem(QUICK_MESSAGES_KEY, JSON.stringify(messages.slice(0, MAX_QUICK_MESSAGES)));
+}
+
+// The settings with `message` showing, for callers without the Settings form (the
+// tray). Colors are taken as saved; the form also re-checks them for contrast.
+export function applyQuickMessage(s: AppSettings, message: QuickMessage): AppSettings {
+  return {
+    ...s,
+    subtitleText: message.subtitleText,
+    titleText: message.titleText || s.titleText,
+    qrText: message.qrText || s.qrText,
+    bg: message.bg || s.bg,
+    text: message.text || s.text,
+    subtitleColor: message.subtitleColor || s.subtitleColor,
+  };
+}
+
+// Categories in first-seen order, so reordering messages also reorders groups
+export function groupByCategory(messages: QuickMessage[]): [string, QuickMessage[]][] {
+  const groups = new Map<string, QuickMessage[]>();
+  for (const m of messages) {
+    const key = m.category.trim() || "General";
+    const group = groups.get(key);
+    if (group) group.push(m);
+    else groups.set(key, [m]);
+  }
+  return [...groups.entries()];
+}
@@ -0,0 +1,108 @@
+// src/remote.ts
+// Remote control from a phone or a second laptop on the same network
+// (src-tauri/src/remote.rs). The config lives here. Settings turns the server on
+// and off; the main window starts it at launch, keeps its scene list current and
+// carries out the remote's text and scene changes, which need this storage.
+
+import { invoke } from "@tauri-apps/api/core";
+import { listen, type UnlistenFn } from "@tauri-apps/api/event";
+import { isRecord } from "./protocol";
+import type { Scene } from "./scenes";
+
+const REMOTE_KEY = "remote";
+
+export const DEFAULT_REMOTE_PORT = 8765;
+// Also the range for the control socket (control.ts); below 1024 needs admin rights
+export const MIN_LISTEN_PORT = 1024;
+export const MAX_LISTEN_PORT = 65535;
+
+export type RemoteConfig = {
+  enabled: boolean;
+  port: number;
+  // Shared secret in the pairing link; a new one locks out every paired device
+  token: string;
+};
+
+export type RemoteStatus = {
+  running: boolean;
+  port: number;
+  // "127.0.0.1", then this machine's LAN address when it has one
+  addresses: string[];
+};
+
+export type RemoteHandlers = {
+  // null leaves that line as it is
+  onSetText: (title: string | null, subtitle: string | null) => void;
+  onRecallScene: (id: string) => void;
+};
+
+export function newPairingToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function isListenPort(v: unknown): v is number {
+  return Number.isInteger(v) && (v as number) >= MIN_LISTEN_PORT && (v as number) <= MAX_LISTEN_PORT;
+}
+
+// The first read creates the token, so the pairing link stays the same until the proctor replaces it
+export function readRemoteConfig(): RemoteConfig {
+  let raw: unknown = null;
+  try {
+    raw = JSON.parse(localStorage.getItem(REMOTE_KEY) ?? "null");
+  } catch {
+    // fall through to a fresh config
+  }
+  if (isRecord(raw) && typeof raw.token === "string" && /^[0-9a-f]{32}$/.test(raw.token)) {
+    return {
+      enabled: raw.enabled === true,
+      port: isListenPort(raw.port) ? raw.port : DEFAULT_REMOTE_PORT,
+      token: raw.token,
+    };
+  }
+  const config = { enabled: false, port: DEFAULT_REMOTE_PORT, token: newPairingToken() };
+  writeRemoteConfig(config);
+  return config;
+}
+
+export function writeRemoteConfig(config: RemoteConfig) {
+  localStorage.setItem(REMOTE_KEY, JSON.stringify(config));
+}
+
+// Restarts the server when it's already running
+export function startRemote(config: RemoteConfig): Promise<RemoteStatus> {
+  return invoke<RemoteStatus>("remote_start", { port: config.port, token: config.token });
+}
+
+export function stopRemote(): Promise<void> {
+  return invoke("remote_stop");
+}
+
+export function remoteStatus(): Promise<RemoteStatus> {
+  return invoke<RemoteStatus>("remote_status");
+}
+
+// What to open on the other device; the token rides in the fragment, which the browser never sends
+export function pairingUrls(status: RemoteStatus, token: string): string[] {
+  return status.addresses.map((address) => `http://${address}:${status.port}/#token=${token}`);
+}
+
+// Re-sent on every storage change; only real changes reach Rust
+let sentScenes = "";
+
+export function syncRemoteScenes(scenes: Scene[]): Promise<void> {
+  const args = { scenes: scenes.map((s) => ({ id: s.id, name: s.name })) };
+  const key = JSON.stringify(args);
+  if (key === sentScenes) return Promise.resolve();
+  sentScenes = key;
+  return invoke("remote_set_scenes", args);
+}
+
+export async function listenForRemote(handlers: RemoteHandlers): Promise<UnlistenFn[]> {
+  return Promise.all([
+    listen<{ title: string | null; subtitle: string | null }>("remote:set-text", (e) =>
+      handlers.onSetText(e.payload.title, e.payload.subtitle)
+    ),
+    listen<string>("remote:recall-scene", (e) => handlers.onRecallScene(e.payload)),
+  ]);
+}
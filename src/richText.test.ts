@@ -0,0 +1,84 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { hasRichMarkup, parseRichText, plainText, renderRichText } from "./richText";
+
+const text = (value: string, bold = false, highlight = false) => ({ kind: "text", text: value, bold, highlight });
+
+describe("parseRichText", () => {
+  it("leaves plain text alone", () => {
+    expect(parseRichText("CHECK YOUR ZOOM CHAT")).toEqual([text("CHECK YOUR ZOOM CHAT")]);
+    expect(parseRichText("")).toEqual([]);
+  });
+
+  it("turns newlines into breaks", () => {
+    expect(parseRichText("one\r\ntwo\n")).toEqual([text("one"), { kind: "break" }, text("two"), { kind: "break" }]);
+  });
+
+  it("reads bold and highlight, nested either way", () => {
+    expect(parseRichText("Upload to **Canvas** ==now==")).toEqual([
+      text("Upload to "),
+      text("Canvas", true),
+      text(" "),
+      text("now", false, true),
+    ]);
+    expect(parseRichText("**a ==b== c**")).toEqual([
+      text("a ", true),
+      text("b", true, true),
+      text(" c", true),
+    ]);
+  });
+
+  it("keeps an unpaired marker as text", () => {
+    expect(parseRichText("**a** 2**3")).toEqual([text("a", true), text(" 2**3")]);
+    expect(parseRichText("a == b")).toEqual([text("a == b")]);
+  });
+
+  it("closes markers at the end of a line", () => {
+    expect(parseRichText("**a\nb**")).toEqual([text("**a"), { kind: "break" }, text("b**")]);
+  });
+
+  it("reads icons and images, and only known icons", () => {
+    expect(parseRichText(":camera: on [image:seat-1] :smile:")).toEqual([
+      { kind: "icon", name: "camera" },
+      text(" on "),
+      { kind: "image", id: "seat-1" },
+      text(" :smile:"),
+    ]);
+    expect(parseRichText("[image:../etc]")).toEqual([text("[image:../etc]")]);
+  });
+});
+
+it("tells markup from plain text", () => {
+  expect(hasRichMarkup("ATTENTION")).toBe(false);
+  expect(hasRichMarkup("2 ** 3")).toBe(false);
+  expect(hasRichMarkup("line\nbreak")).toBe(true);
+  expect(hasRichMarkup(":hand:")).toBe(true);
+  expect(plainText("**Raise** your :hand:\nnow")).toBe("Raise your now");
+});
+
+describe("renderRichText", () => {
+  const dataUrl = "data:image/png;base64,iVBORw0KGgo=";
+
+  it("builds nodes without interpreting HTML", () => {
+    const el = document.createElement("div");
+    renderRichText(el, '**<img src=x onerror="alert(1)">**\n==hi==', []);
+    expect(el.querySelector("img")).toBeNull();
+    expect(el.querySelector("strong")?.textContent).toBe('<img src=x onerror="alert(1)">');
+    expect(el.querySelector("br")).not.toBeNull();
+    expect(el.querySelector("mark.rich-mark")?.textContent).toBe("hi");
+  });
+
+  it("shows stored images and skips missing or unsafe ones", () => {
+    const el = document.createElement("div");
+    const images = [
+      { id: "seat", name: "Seating", dataUrl },
+      { id: "bad", name: "Bad", dataUrl: "data:image/svg+xml;base64,PHN2Zz4=" },
+    ];
+    renderRichText(el, "[image:seat][image:bad][image:gone] :mic:", images);
+    const imgs = el.querySelectorAll("img");
+    expect(imgs).toHaveLength(1);
+    expect(imgs[0].alt).toBe("Seating");
+    expect(imgs[0].getAttribute("src")).toBe(dataUrl);
+    expect(el.querySelector("svg.rich-icon")?.getAttribute("aria-label")).toBe("Microphone");
+  });
+});
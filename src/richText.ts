@@ -0,0 +1,184 @@
+// src/richText.ts
+// Rich message markup for the title and subtitle. Settings stay plain strings
+// (scenes, quick messages and the wire format are unchanged); this module turns
+// them into DOM nodes.
+//
+//   line breaks           a newline
+//   **bold**              <strong>
+//   ==highlight==         <mark>
+//   :camera: :mic: :chat: :hand:   built-in icons
+//   [image:<id>]          a picture from the local image store (images.ts)
+//
+// Rendering never goes through innerHTML: every node is built here, text goes in
+// through textContent, and images only come from validated data URLs.
+
+import { isSafeImageDataUrl, type StoredImage } from "./images";
+
+export type IconName = "camera" | "mic" | "chat" | "hand";
+
+export const ICON_LABELS: Record<IconName, string> = {
+  camera: "Camera",
+  mic: "Microphone",
+  chat: "Chat",
+  hand: "Raised hand",
+};
+
+// 24 × 24 paths, filled with the text color
+const ICON_PATHS: Record<IconName, string> = {
+  camera:
+    "M4 7h3l2-3h6l2 3h3a1 1 0 0 1 1 1v11a1 1 0 0 1-1 1H4a1 1 0 0 1-1-1V8a1 1 0 0 1 1-1zm8 3a4 4 0 1 0 0 8 4 4 0 0 0 0-8z",
+  mic: "M12 2a3 3 0 0 1 3 3v6a3 3 0 0 1-6 0V5a3 3 0 0 1 3-3zM5 11h2a5 5 0 0 0 10 0h2a7 7 0 0 1-6 6.9V21h-2v-3.1A7 7 0 0 1 5 11z",
+  chat: "M4 3h16a1 1 0 0 1 1 1v11a1 1 0 0 1-1 1H9l-5 4v-4a1 1 0 0 1-1-1V4a1 1 0 0 1 1-1z",
+  hand:
+    "M8 12V5.5a1.5 1.5 0 0 1 3 0V11h1V3.5a1.5 1.5 0 0 1 3 0V11h1V5.5a1.5 1.5 0 0 1 3 0V15a7 7 0 0 1-7 7h-.6a6 6 0 0 1-5-2.7l-3-4.6a1.5 1.5 0 0 1 2.4-1.8L8 15z",
+};
+
+export function isIconName(v: string): v is IconName {
+  return Object.prototype.hasOwnProperty.call(ICON_PATHS, v);
+}
+
+export type RichNode =
+  | { kind: "text"; text: string; bold: boolean; highlight: boolean }
+  | { kind: "break" }
+  | { kind: "icon"; name: IconName }
+  | { kind: "image"; id: string };
+
+const TOKEN_RE = /\*\*|==|:([a-z]+):|\[image:([a-z0-9-]+)\]/g;
+
+export function iconToken(name: IconName): string {
+  return `:${name}:`;
+}
+
+export function imageToken(id: string): string {
+  return `[image:${id}]`;
+}
+
+// Markers only count in pairs within a line; an odd one out stays literal text
+function pairedMarkers(matches: RegExpMatchArray[], marker: string): Set<number> {
+  const at = matches.filter((m) => m[0] === marker).map((m) => m.index ?? 0);
+  if (at.length % 2 === 1) at.pop();
+  return new Set(at);
+}
+
+function parseLine(line: string, out: RichNode[]) {
+  const matches = [...line.matchAll(TOKEN_RE)];
+  const bolds = pairedMarkers(matches, "**");
+  const highlights = pairedMarkers(matches, "==");
+
+  let bold = false;
+  let highlight = false;
+  let text = "";
+  const flush = () => {
+    if (text) out.push({ kind: "text", text, bold, highlight });
+    text = "";
+  };
+
+  let pos = 0;
+  for (const m of matches) {
+    const index = m.index ?? 0;
+    text += line.slice(pos, index);
+    pos = index + m[0].length;
+
+    if (m[0] === "**" && bolds.has(index)) {
+      flush();
+      bold = !bold;
+    } else if (m[0] === "==" && highlights.has(index)) {
+      flush();
+      highlight = !highlight;
+    } else if (m[1] !== undefined && isIconName(m[1])) {
+      flush();
+      out.push({ kind: "icon", name: m[1] });
+    } else if (m[2] !== undefined) {
+      flush();
+      out.push({ kind: "image", id: m[2] });
+    } else {
+      text += m[0];
+    }
+  }
+  text += line.slice(pos);
+  flush();
+}
+
+export function parseRichText(source: string): RichNode[] {
+  const nodes: RichNode[] = [];
+  source.split(/\r?\n/).forEach((line, i) => {
+    if (i > 0) nodes.push({ kind: "break" });
+    parseLine(line, nodes);
+  });
+  return nodes;
+}
+
+// The words alone, for tooltips and labels
+export function plainText(source: string): string {
+  return parseRichText(source)
+    .map((n) => (n.kind === "text" ? n.text : n.kind === "break" ? " " : ""))
+    .join("")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+// True when the source renders as anything other than plain text
+export function hasRichMarkup(source: string): boolean {
+  return parseRichText(source).some((n) => n.kind !== "text" || n.bold || n.highlight);
+}
+
+export function iconElement(name: IconName): SVGSVGElement {
+  const ns = "http://www.w3.org/2000/svg";
+  const svg = document.createElementNS(ns, "svg");
+  svg.setAttribute("viewBox", "0 0 24 24");
+  svg.setAttribute("class", "rich-icon");
+  svg.setAttribute("role", "img");
+  svg.setAttribute("aria-label", ICON_LABELS[name]);
+  const path = document.createElementNS(ns, "path");
+  path.setAttribute("d", ICON_PATHS[name]);
+  path.setAttribute("fill-rule", "evenodd");
+  svg.appendChild(path);
+  return svg;
+}
+
+// Missing or unsafe images render as nothing, so a stale id never shows an error on screen
+function imageElement(id: string, images: StoredImage[]): HTMLImageElement | null {
+  const image = images.find((i) => i.id === id);
+  if (!image || !isSafeImageDataUrl(image.dataUrl)) return null;
+  const img = document.createElement("img");
+  img.className = "rich-image";
+  img.src = image.dataUrl;
+  img.alt = image.name;
+  return img;
+}
+
+export function renderRichText(el: HTMLElement, source: string, images: StoredImage[]) {
+  const nodes: Node[] = [];
+  for (const node of parseRichText(source)) {
+    switch (node.kind) {
+      case "break":
+        nodes.push(document.createElement("br"));
+        break;
+      case "icon":
+        nodes.push(iconElement(node.name));
+        break;
+      case "image": {
+        const img = imageElement(node.id, images);
+        if (img) nodes.push(img);
+        break;
+      }
+      case "text": {
+        let inner: Node = document.createTextNode(node.text);
+        if (node.bold) {
+          const strong = document.createElement("strong");
+          strong.appendChild(inner);
+          inner = strong;
+        }
+        if (node.highlight) {
+          const mark = document.createElement("mark");
+          mark.className = "rich-mark";
+          mark.appendChild(inner);
+          inner = mark;
+        }
+        nodes.push(inner);
+        break;
+      }
+    }
+  }
+  el.replaceChildren(...nodes);
+}
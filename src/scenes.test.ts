@@ -0,0 +1,82 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { AppSettings } from "./protocol";
+import { MAX_SCENES, readScenes, validateScene, writeScenes, type Scene } from "./scenes";
+import { defaultSettings } from "./storage";
+
+const scene = (id: string, changes: Partial<AppSettings> = {}): Scene => ({
+  id,
+  name: `Scene ${id}`,
+  mode: "message",
+  settings: { ...defaultSettings(), ...changes },
+});
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("validateScene", () => {
+  it("accepts a saved scene", () => {
+    expect(validateScene(scene("exam"), 0)).toEqual({ ok: true, value: scene("exam") });
+  });
+
+  it("names the bad field", () => {
+    expect(validateScene({ ...scene("a"), mode: "flash" }, 1)).toEqual({
+      ok: false,
+      error: 'scenes[1].mode: expected "message" or "blank"',
+    });
+    expect(validateScene({ ...scene("a"), id: 7 }, 0)).toEqual({
+      ok: false,
+      error: "scenes[0]: id and name must be strings",
+    });
+    const broken = validateScene(scene("a", { timerSec: 75 }), 3);
+    expect(broken.ok).toBe(false);
+    if (!broken.ok) expect(broken.error.startsWith("scenes[3].settings: timerSec")).toBe(true);
+  });
+
+
+  it("fills in settings added since the scene was saved", () => {
+    const { displayProfile: _, ...older } = defaultSettings();
+    expect(validateScene({ ...scene("a"), settings: older }, 0)).toEqual({ ok: true, value: scene("a") });
+  });
+});
+
+describe("readScenes", () => {
+  it("reads back what was written", () => {
+    const scenes = [scene("exam", { titleText: "EXAM" }), { ...scene("break"), mode: "blank" as const }];
+    writeScenes(scenes);
+    expect(readScenes()).toEqual(scenes);
+  });
+
+  it("starts empty and survives unreadable storage", () => {
+    expect(readScenes()).toEqual([]);
+    localStorage.setItem("scenes", "{not json");
+    expect(readScenes()).toEqual([]);
+    localStorage.setItem("scenes", JSON.stringify({ id: "a" }));
+    expect(readScenes()).toEqual([]);
+  });
+
+  it("drops broken scenes and keeps the rest", () => {
+    localStorage.setItem(
+      "scenes",
+      JSON.stringify([
+        scene("a"),
+        { ...scene("b"), mode: "flash" },
+        { ...scene("c"), name: 3 },
+        scene("d", { bg: "sparkly" }),
+        scene("e"),
+      ])
+    );
+    expect(readScenes().map((s) => s.id)).toEqual(["a", "e"]);
+  });
+});
+
+it("keeps at most MAX_SCENES", () => {
+  writeScenes(Array.from({ length: MAX_SCENES + 2 }, (_, i) => scene(String(i))));
+  expect(readScenes()).toHaveLength(MAX_SCENES);
+});
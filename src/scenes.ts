@@ -0,0 +1,71 @@
+// src/scenes.ts
+// Named scenes: a full AppSettings snapshot plus the display mode, recalled in one step.
+// Stored in localStorage so every window of the app sees the same list.
+
+import {
+  isRecord,
+  validateSettings,
+  type AppSettings,
+  type DisplayMode,
+  type ParseResult,
+} from "./protocol";
+import { DEFAULT_SETTINGS } from "./storage";
+
+const SCENES_KEY = "scenes";
+
+export const MAX_SCENES = 24;
+
+export type Scene = {
+  id: string;
+  name: string;
+  mode: DisplayMode;
+  settings: AppSettings;
+};
+
+export function newSceneId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function validateScene(raw: unknown, index: number): ParseResult<Scene> {
+  const where = `scenes[${index}]`;
+  if (!isRecord(raw)) return { ok: false, error: `${where}: not an object` };
+  if (typeof raw.id !== "string" || typeof raw.name !== "string") {
+    return { ok: false, error: `${where}: id and name must be strings` };
+  }
+  if (raw.mode !== "message" && raw.mode !== "blank") {
+    return { ok: false, error: `${where}.mode: expected "message" or "blank"` };
+  }
+
+  // Scenes saved before a settings field existed take its default
+  const settings = validateSettings(isRecord(raw.settings) ? { ...DEFAULT_SETTINGS, ...raw.settings } : raw.settings);
+  if (!settings.ok) return { ok: false, error: `${where}.settings: ${settings.error}` };
+  return { ok: true, value: { id: raw.id, name: raw.name, mode: raw.mode, settings: settings.value } };
+}
+
+function parseScene(raw: unknown, index: number): Scene | null {
+  const scene = validateScene(raw, index);
+  if (!scene.ok) {
+    console.warn(`Dropping scene: ${scene.error}`);
+    return null;
+  }
+  return scene.value;
+}
+
+export function readScenes(): Scene[] {
+  const json = localStorage.getItem(SCENES_KEY);
+  if (!json) return [];
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .slice(0, MAX_SCENES)
+      .map(parseScene)
+      .filter((s): s is Scene => s !== null);
+  } catch {
+    return [];
+  }
+}
+
+export function writeScenes(scenes: Scene[]) {
+  localStorage.setItem(SCENES_KEY, JSON.stringify(scenes.slice(0, MAX_SCENES)));
+}
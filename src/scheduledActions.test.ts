@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { ALL_VIEWS } from "./protocol";
+import {
+  SCHEDULED_GRACE_MS,
+  dueActions,
+  isScheduledMode,
+  newScheduledAction,
+  nextAction,
+  validateScheduledAction,
+  type ScheduledAction,
+} from "./scheduledActions";
+
+// Local times on one day, as the entries are
+const at = (h: number, min: number, s = 0) => new Date(2026, 9, 19, h, min, s).getTime();
+
+const entry = (id: string, time: string, changes: Partial<ScheduledAction> = {}): ScheduledAction => ({
+  ...newScheduledAction(),
+  id,
+  time,
+  subtitleText: `${id} message`,
+  ...changes,
+});
+
+const ids = (due: { entry: ScheduledAction }[]) => due.map((d) => d.entry.id);
+
+describe("dueActions", () => {
+  const entries = [entry("a", "13:45"), entry("b", "14:00", { mode: "blank" })];
+
+  it("runs an entry from its time until the grace period ends", () => {
+    expect(dueActions(entries, "main", at(13, 44, 59), {})).toEqual([]);
+    expect(dueActions(entries, "main", at(13, 45), {})).toEqual([{ entry: entries[0], at: at(13, 45) }]);
+    expect(ids(dueActions(entries, "main", at(13, 45) + SCHEDULED_GRACE_MS, {}))).toEqual(["a"]);
+    expect(dueActions(entries, "main", at(13, 45) + SCHEDULED_GRACE_MS + 1, {})).toEqual([]);
+  });
+
+  it("runs each occurrence once", () => {
+    expect(dueActions(entries, "main", at(13, 46), { a: at(13, 45) })).toEqual([]);
+    // Moved to a later time the same day: a new occurrence
+    const moved = [entry("a", "13:50")];
+    expect(ids(dueActions(moved, "main", at(13, 50), { a: at(13, 45) }))).toEqual(["a"]);
+  });
+
+  it("only runs enabled entries aimed at this window", () => {
+    const aimed = [
+      entry("all", "09:00"),
+      entry("hall", "09:00", { target: "student-hall" }),
+      entry("off", "09:00", { enabled: false }),
+    ];
+    expect(ids(dueActions(aimed, "main", at(9, 0), {}))).toEqual(["all"]);
+    expect(ids(dueActions(aimed, "student-hall", at(9, 0), {}))).toEqual(["all", "hall"]);
+  });
+
+  it("skips entries without a time", () => {
+    expect(dueActions([entry("new", "")], "main", at(0, 0), {})).toEqual([]);
+  });
+});
+
+describe("nextAction", () => {
+  it("picks the soonest enabled entry, wrapping to tomorrow", () => {
+    const entries = [entry("late", "16:00"), entry("early", "08:00"), entry("off", "12:00", { enabled: false })];
+    expect(nextAction(entries, at(11, 0))).toEqual({ entry: entries[0], at: at(16, 0) });
+    const tomorrow = new Date(2026, 9, 20, 8, 0).getTime();
+    expect(nextAction(entries, at(17, 0))).toEqual({ entry: entries[1], at: tomorrow });
+    expect(nextAction([entry("new", "")], at(17, 0))).toBeNull();
+  });
+});
+
+describe("validateScheduledAction", () => {
+  it("accepts a new entry and one being typed in", () => {
+    const fresh = newScheduledAction();
+    expect(validateScheduledAction(fresh, 0)).toEqual({ ok: true, value: fresh });
+    expect(fresh.target).toBe(ALL_VIEWS);
+  });
+
+  it("rejects bad times and modes", () => {
+    expect(validateScheduledAction(entry("a", "25:00"), 2)).toEqual({
+      ok: false,
+      error: 'scheduledActions[2].time: expected "HH:MM"',
+    });
+    expect(validateScheduledAction({ ...entry("a", "13:45"), mode: "party" }, 0).ok).toBe(false);
+    expect(validateScheduledAction({ ...entry("a", "13:45"), flash: "yes" }, 0).ok).toBe(false);
+  });
+
+  it("knows the modes", () => {
+    expect(["keep", "message", "blank"].every(isScheduledMode)).toBe(true);
+    expect(isScheduledMode("flash")).toBe(false);
+  });
+});
@@ -0,0 +1,164 @@
+// src/scheduledActions.ts
+// Actions that fire by themselves at a time of day ("13:45: 15 MINUTES LEFT + flash",
+// "14:00: blank"). Settings edits the list; every Student View window checks it on
+// its own clock and runs the entries aimed at it, so nothing depends on the
+// Settings window being open.
+
+import { ALL_VIEWS, DEADLINE_RE, isRecord, type DisplayMode, type ParseResult } from "./protocol";
+import { viewKey } from "./studentViews";
+
+const SCHEDULED_ACTIONS_KEY = "scheduledActions";
+const SCHEDULED_RUNS_KEY = "scheduledRuns";
+
+export const MAX_SCHEDULED_ACTIONS = 20;
+
+// An entry still runs this long after its time, e.g. when the app starts at 13:46
+// or a busy window checks late. Anything older is skipped, not run late.
+export const SCHEDULED_GRACE_MS = 2 * 60 * 1000;
+
+export type ScheduledAction = {
+  id: string;
+  enabled: boolean;
+  // "HH:MM" local time, every day
+  time: string;
+  // Student View label, or ALL_VIEWS
+  target: string;
+  // Empty strings keep the title / subtitle on screen
+  titleText: string;
+  subtitleText: string;
+  mode: "keep" | DisplayMode;
+  flash: boolean;
+};
+
+const SCHEDULED_MODES: readonly ScheduledAction["mode"][] = ["keep", "message", "blank"];
+
+export function isScheduledMode(v: unknown): v is ScheduledAction["mode"] {
+  return SCHEDULED_MODES.includes(v as ScheduledAction["mode"]);
+}
+
+export function newScheduledAction(): ScheduledAction {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    enabled: true,
+    time: "",
+    target: ALL_VIEWS,
+    titleText: "",
+    subtitleText: "",
+    mode: "keep",
+    flash: false,
+  };
+}
+
+export function validateScheduledAction(raw: unknown, index: number): ParseResult<ScheduledAction> {
+  const where = `scheduledActions[${index}]`;
+  if (!isRecord(raw)) return { ok: false, error: `${where}: not an object` };
+
+  for (const key of ["id", "target", "titleText", "subtitleText"] as const) {
+    if (typeof raw[key] !== "string") return { ok: false, error: `${where}.${key}: expected string` };
+  }
+  // An entry being typed in has no time yet; it's kept but never runs
+  if (typeof raw.time !== "string" || !(raw.time === "" || DEADLINE_RE.test(raw.time))) {
+    return { ok: false, error: `${where}.time: expected "HH:MM"` };
+  }
+  if (!isScheduledMode(raw.mode)) {
+    return { ok: false, error: `${where}.mode: expected keep, message or blank` };
+  }
+  for (const key of ["enabled", "flash"] as const) {
+    if (typeof raw[key] !== "boolean") return { ok: false, error: `${where}.${key}: expected boolean` };
+  }
+
+  return {
+    ok: true,
+    value: {
+      id: raw.id as string,
+      enabled: raw.enabled as boolean,
+      time: raw.time,
+      target: raw.target as string,
+      titleText: raw.titleText as string,
+      subtitleText: raw.subtitleText as string,
+      mode: raw.mode,
+      flash: raw.flash as boolean,
+    },
+  };
+}
+
+export function readScheduledActions(): ScheduledAction[] {
+  const json = localStorage.getItem(SCHEDULED_ACTIONS_KEY);
+  if (!json) return [];
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .slice(0, MAX_SCHEDULED_ACTIONS)
+      .map(validateScheduledAction)
+      .flatMap((e) => (e.ok ? [e.value] : []));
+  } catch {
+    return [];
+  }
+}
+
+export function writeScheduledActions(entries: ScheduledAction[]) {
+  localStorage.setItem(SCHEDULED_ACTIONS_KEY, JSON.stringify(entries.slice(0, MAX_SCHEDULED_ACTIONS)));
+}
+
+// Epoch ms of the entry's time on the day of `now`; null without a time
+export function occurrenceOn(entry: ScheduledAction, now: number): number | null {
+  if (!DEADLINE_RE.test(entry.time)) return null;
+  const [h, min] = entry.time.split(":").map(Number);
+  const at = new Date(now);
+  at.setHours(h, min, 0, 0);
+  return at.getTime();
+}
+
+// The entries due at `now` for `view`. `runs` maps entry id -> the occurrence it
+// last ran for, so each occurrence runs once even across reloads, and moving an
+// entry to a later time lets it run again the same day.
+export function dueActions(
+  entries: ScheduledAction[],
+  view: string,
+  now: number,
+  runs: Record<string, number>
+): { entry: ScheduledAction; at: number }[] {
+  return entries.flatMap((entry) => {
+    if (!entry.enabled || (entry.target !== ALL_VIEWS && entry.target !== view)) return [];
+    const at = occurrenceOn(entry, now);
+    if (at === null || now < at || now - at > SCHEDULED_GRACE_MS || runs[entry.id] === at) return [];
+    return [{ entry, at }];
+  });
+}
+
+// The next enabled entry to run anywhere, for the Settings "Next up" line
+export function nextAction(entries: ScheduledAction[], now: number): { entry: ScheduledAction; at: number } | null {
+  let next: { entry: ScheduledAction; at: number } | null = null;
+  for (const entry of entries) {
+    if (!entry.enabled) continue;
+    let at = occurrenceOn(entry, now);
+    if (at === null) continue;
+    if (at <= now) {
+      const tomorrow = new Date(at);
+      tomorrow.setDate(tomorrow.getDate() + 1);
+      at = tomorrow.getTime();
+    }
+    if (!next || at < next.at) next = { entry, at };
+  }
+  return next;
+}
+
+// Per Student View, written only by that window
+export function readScheduledRuns(view: string): Record<string, number> {
+  try {
+    const raw: unknown = JSON.parse(localStorage.getItem(viewKey(SCHEDULED_RUNS_KEY, view)) ?? "{}");
+    if (!isRecord(raw)) return {};
+    return Object.fromEntries(Object.entries(raw).filter((e): e is [string, number] => typeof e[1] === "number"));
+  } catch {
+    return {};
+  }
+}
+
+export function writeScheduledRuns(view: string, runs: Record<string, number>) {
+  localStorage.setItem(viewKey(SCHEDULED_RUNS_KEY, view), JSON.stringify(runs));
+}
+
+export function removeScheduledRuns(view: string) {
+  localStorage.removeItem(viewKey(SCHEDULED_RUNS_KEY, view));
+}
@@ -1,53 +1,189 @@
 // src/settings.ts
-import { emit } from "@tauri-apps/api/event";
 import { getCurrentWindow, LogicalSize } from "@tauri-apps/api/window";
+import {
+  CONTRAST_LEVELS,
+  contrastBadge,
+  contrastRatio,
+  isContrastLevel,
+  readableOn,
+  type ContrastLevel,
+} from "./contrast";
+import {
+  applyImport,
+  buildConfigFile,
+  describeImport,
+  parseConfigFile,
+  readCollapsed,
+  writeCollapsed,
+  type ConfigImport,
+  type ConfigSnapshot,
+  type ImportStrategy,
+} from "./configFile";
+import {
+  MAX_PALETTES,
+  MAX_SWATCHES,
+  PCC_PALETTE_ID,
+  colorLabel,
+  newPaletteId,
+  paletteOptions,
+  readActivePaletteId,
+  readPalettes,
+  writeActivePaletteId,
+  writePalettes,
+  type CustomPalette,
+  type Swatch,
+} from "./customPalettes";
+import { calmMotion, DISPLAY_PROFILE_LABELS } from "./displayProfiles";
+import {
+  describeFlash,
+  FLASH_PATTERN_LABELS,
+  flashPlan,
+  MAX_FLASH_CYCLE_MS,
+  MAX_FLASH_REPEATS,
+  MIN_FLASH_CYCLE_MS,
+} from "./flash";
+import {
+  ALL_VIEWS,
+  HEARTBEAT_MS,
+  listenForStateReports,
+  DEADLINE_RE,
+  isDisplayProfile,
+  isFlashPattern,
+  isTimerMode,
+  MAX_ALERTS,
+  MAX_QR_TEXT,
+  MAX_TICKER_ITEMS,
+  MAX_TICKER_TEXT,
+  MAX_TICKER_SPEED,
+  MIN_TICKER_SPEED,
+  MAX_PHASES,
+  nextCommandId,
+  sendCommand,
+  type AppSettings,
+  type Command,
+  type DisplayMode,
+  type StateReport,
+  type TickerItem,
+  type TimerAlert,
+  type TimerAlertEffect,
+  type TimerPhase,
+} from "./protocol";
+import {
+  MAX_QUICK_MESSAGES,
+  groupByCategory,
+  newQuickMessageId,
+  readQuickMessages,
+  writeQuickMessages,
+  type QuickMessage,
+} from "./quickMessages";
+import { MAX_SCENES, newSceneId, readScenes, writeScenes, type Scene } from "./scenes";
+import {
+  readContrastLevel,
+  readStoredSettings,
+  removeStoredSettings,
+  storedSettingsKey,
+  writeContrastLevel,
+  writeStoredSettings,
+} from "./storage";
+import {
+  DEFAULT_HOTKEYS,
+  HOTKEY_FAILURES_KEY,
+  HOTKEY_LABELS,
+  acceleratorFromEvent,
+  activeHotkeys,
+  formatAccelerator,
+  hotkeyConflicts,
+  isHotkeyAction,
+  pauseHotkeys,
+  quickHotkeyId,
+  readHotkeyFailures,
+  readHotkeys,
+  writeHotkeys,
+  type HotkeyMap,
+} from "./hotkeys";
+import {
+  DEFAULT_CONTROL_PORT,
+  controlStatus,
+  readControlConfig,
+  startControl,
+  stopControl,
+  writeControlConfig,
+  type ControlStatus,
+} from "./control";
+import { colorHex } from "./palette";
+import { renderQrCode } from "./qrCode";
+import {
+  DEFAULT_REMOTE_PORT,
+  MAX_LISTEN_PORT,
+  MIN_LISTEN_PORT,
+  newPairingToken,
+  pairingUrls,
+  readRemoteConfig,
+  remoteStatus,
+  startRemote,
+  stopRemote,
+  writeRemoteConfig,
+  type RemoteStatus,
+} from "./remote";
+import {
+  MAIN_VIEW,
+  MAX_EXTRA_VIEWS,
+  allViews,
+  closeStudentView,
+  newViewLabel,
+  openStudentView,
+  readStudentViews,
+  writeStudentViews,
+  type StudentView,
+} from "./studentViews";
+import {
+  MAX_SCHEDULED_ACTIONS,
+  isScheduledMode,
+  newScheduledAction,
+  nextAction,
+  readScheduledActions,
+  removeScheduledRuns,
+  writeScheduledActions,
+  type ScheduledAction,
+} from "./scheduledActions";
+import { readTimerState, removeTimerState } from "./timerState";
+import {
+  MAX_IMAGES,
+  imageFromFile,
+  readImages,
+  writeImages,
+  type StoredImage,
+} from "./images";
+import {
+  ICON_LABELS,
+  hasRichMarkup,
+  iconElement,
+  iconToken,
+  imageToken,
+  plainText,
+  renderRichText,
+  type IconName,
+} from "./richText";
 import "./settings.css";
 
-type AppSettings = {
-  bg: string;
-  titleText: string;
-  text: string;
-  subtitleText: string;
-  subtitleColor: string;
-  timerMode: "off" | "countdown";
-  timerMin: number;
-  timerSec: number;
-};
+// Which text colors the selects offer follows this, see contrast.ts
+let contrastLevel: ContrastLevel = readContrastLevel();
 
-type PCCEntry = { label: string; cssVar: string };
-
-const PCC: Record<string, PCCEntry> = {
-  turquoise: { label: "PCC Turquoise", cssVar: "--pcc-turquoise" },
-  navy: { label: "PCC Navy", cssVar: "--pcc-navy" },
-  white: { label: "White", cssVar: "--pcc-white" },
-  purple: { label: "Purple", cssVar: "--pcc-purple" },
-  "apple-green": { label: "Apple Green", cssVar: "--pcc-apple-green" },
-  "seafoam-green": { label: "Seafoam Green", cssVar: "--pcc-seafoam-green" },
-  "dark-tan": { label: "Dark Tan", cssVar: "--pcc-dark-tan" },
-  "light-tan": { label: "Light Tan", cssVar: "--pcc-light-tan" },
-  "salmon-pink": { label: "Salmon Pink", cssVar: "--pcc-salmon-pink" },
-  "golden-yellow": { label: "Golden Yellow", cssVar: "--pcc-golden-yellow" },
-  "bright-yellow": { label: "Bright Yellow", cssVar: "--pcc-bright-yellow" },
-  black: { label: "Black", cssVar: "--pcc-black" },
-};
+// The color selects offer the active palette's colors, see customPalettes.ts
+let palettes: CustomPalette[] = readPalettes();
+let activePaletteId = readActivePaletteId();
 
-const TEXT_ALLOWED_BY_BG: Record<string, string[]> = {
-  "seafoam-green": ["navy", "purple", "black"],
-  turquoise: ["navy", "white", "bright-yellow", "purple", "black"],
-  navy: ["turquoise","white","salmon-pink","golden-yellow","bright-yellow","seafoam-green","apple-green","dark-tan","light-tan"],
-  white: ["turquoise","navy","purple","dark-tan","black"],
-  purple: ["turquoise","white","salmon-pink","golden-yellow","bright-yellow","seafoam-green","apple-green","dark-tan","light-tan"],
-  "apple-green": ["navy","purple","black"],
-  "dark-tan": ["navy","white","bright-yellow","purple","black"],
-  "light-tan": ["navy","purple","black"],
-  "salmon-pink": ["navy","purple","black"],
-  "golden-yellow": ["turquoise","navy","purple","dark-tan","black"],
-  "bright-yellow": ["navy","purple","black"],
-  black: ["turquoise","white","salmon-pink","golden-yellow","bright-yellow","seafoam-green","apple-green","dark-tan","light-tan"],
-};
+function activeColors(): string[] {
+  return paletteOptions(palettes, activePaletteId).map((o) => o.value);
+}
 
-function must<T extends HTMLElement>(id: string): T {
-  const el = document.getElementById(id);
+// Keeps a value that isn't in the active palette (from a scene, another palette) selectable
+function withValue(values: string[], value: string | undefined): string[] {
+  return !value || values.includes(value) ? values : [...values, value];
+}
+
+function must<T extends Element>(id: string): T {
+  const el: Element | null = document.getElementById(id);
   if (!el) throw new Error(`Missing #${id}`);
   return el as T;
 }
@@ -56,14 +192,14 @@ function clampInt(n: number, min: number, max: number) {
   return Math.min(max, Math.max(min, Math.floor(n)));
 }
 
-function fillSelect(select: HTMLSelectElement, keys: string[]) {
+// With `bg`, each option carries a contrast badge against that background
+function fillSelect(select: HTMLSelectElement, values: string[], bg?: string) {
   select.innerHTML = "";
-  for (const key of keys) {
-    const entry = PCC[key];
-    if (!entry) continue;
+  for (const value of values) {
     const opt = document.createElement("option");
-    opt.value = key;
-    opt.textContent = entry.label;
+    opt.value = value;
+    opt.textContent = colorLabel(palettes, value);
+    if (bg) opt.dataset.badge = contrastBadge(contrastRatio(bg, value), contrastLevel);
     select.appendChild(opt);
   }
 
@@ -71,34 +207,189 @@ function fillSelect(select: HTMLSelectElement, keys: string[]) {
   select.dispatchEvent(new Event("options:changed", { bubbles: false }));
 }
 
-function getAllowedTextKeys(bgKey: string): string[] {
-  return TEXT_ALLOWED_BY_BG[bgKey] ?? Object.keys(PCC);
+function getAllowedTextKeys(bgKey: string, keep?: string): string[] {
+  return readableOn(bgKey, contrastLevel, withValue(activeColors(), keep));
 }
 
-function readStoredSettings(): AppSettings {
-  return {
-    bg: localStorage.getItem("bg") ?? "turquoise",
-    titleText: localStorage.getItem("titleText") ?? "ATTENTION",
-    text: localStorage.getItem("text") ?? "navy",
-    subtitleText: localStorage.getItem("subtitleText") ?? "CHECK YOUR ZOOM CHAT",
-    subtitleColor: localStorage.getItem("subtitleColor") ?? "white",
-    timerMode: (localStorage.getItem("timerMode") as AppSettings["timerMode"]) ?? "off",
-    timerMin: Number(localStorage.getItem("timerMin") ?? "5"),
-    timerSec: Number(localStorage.getItem("timerSec") ?? "0"),
-  };
+/* -----------------------------
+   Student View link
+   The Operations pill reflects the Student View's own state reports, not the
+   last button pressed. Commands sent through sendTracked() must be acked.
+------------------------------ */
+type OpsState = "live" | "blank" | "flash" | "disconnected" | "out-of-sync";
+
+const OPS_LABELS: Record<OpsState, string> = {
+  live: "Live",
+  blank: "Blank",
+  flash: "Flash",
+  disconnected: "Disconnected",
+  "out-of-sync": "Out of sync",
+};
+
+const ACK_TIMEOUT_MS = 1500;
+const DISCONNECT_MS = HEARTBEAT_MS * 3;
+
+// One entry per command per targeted view, so a broadcast is only settled once every window has acked
+type PendingAck = { id: string; sentAt: number; mode?: DisplayMode; views: string[] };
+const pendingAcks = new Map<string, PendingAck>();
+const reports = new Map<string, { report: StateReport; at: number }>();
+let outOfSync = false;
+
+// The Student View the controls act on, or ALL_VIEWS to send every command to each of them
+let targetView = MAIN_VIEW;
+
+// The pill and timer readout follow the target; when broadcasting, the main window
+function shownReport(): { report: StateReport; at: number } | null {
+  return reports.get(targetView === ALL_VIEWS ? MAIN_VIEW : targetView) ?? null;
+}
+
+// The Flash button stays down until the Student View reports the flash is over,
+// so it follows the configured duration instead of a guess
+let flashCommandId: string | null = null;
+
+function ackKey(id: string, view: string): string {
+  return `${id} ${view}`;
+}
+
+function awaitingAck(id: string): boolean {
+  return [...pendingAcks.values()].some((pending) => pending.id === id);
+}
+
+function sendTracked(cmd: Command, id = nextCommandId()): Promise<string> {
+  const views = targetView === ALL_VIEWS ? allViews().map((v) => v.label) : [targetView];
+  const mode = cmd.type === "setMode" ? cmd.mode : undefined;
+  for (const view of views) pendingAcks.set(ackKey(id, view), { id, sentAt: Date.now(), mode, views });
+  return sendCommand(cmd, targetView, id);
+}
+
+function handleStateReport(report: StateReport) {
+  reports.set(report.view, { report, at: Date.now() });
+
+  const key = report.ack ? ackKey(report.ack, report.view) : null;
+  const pending = key ? pendingAcks.get(key) : undefined;
+  if (key && pending) {
+    pendingAcks.delete(key);
+    const disagrees = (view: string) => pending.mode !== undefined && reports.get(view)?.report.mode !== pending.mode;
+    if (disagrees(report.view)) {
+      outOfSync = true;
+    } else if (!awaitingAck(pending.id)) {
+      // Every targeted view has acked: that clears an earlier loss, unless a screen disagrees with what we asked for
+      outOfSync = pending.views.some(disagrees);
+    }
+  }
+
+  refreshOpsView();
+}
+
+// Everything that reads the shown report; also run when the target changes
+function refreshOpsView() {
+  const timer = shownReport()?.report.timer;
+  refreshOpsPill();
+  refreshTimerStatus();
+  syncTimerButtons(!!timer && timer.running && timer.mode !== "deadline" && timer.mode !== "clock");
+  syncFlashButton();
+}
+
+function syncFlashButton() {
+  const btn = document.getElementById("btnFlash") as HTMLButtonElement | null;
+  if (flashCommandId && !awaitingAck(flashCommandId) && !shownReport()?.report.flashing) flashCommandId = null;
+  if (btn) btn.disabled = flashCommandId !== null;
+}
+
+function computeOpsState(now: number): OpsState {
+  const shown = shownReport();
+  if (!shown || now - shown.at > DISCONNECT_MS) return "disconnected";
+
+  for (const [key, pending] of pendingAcks) {
+    if (now - pending.sentAt > ACK_TIMEOUT_MS) {
+      // Lost on any targeted view: stays out of sync until a later command is acked by all of them
+      pendingAcks.delete(key);
+      outOfSync = true;
+    }
+  }
+  if (outOfSync) return "out-of-sync";
+
+  if (shown.report.flashing) return "flash";
+  return shown.report.mode === "blank" ? "blank" : "live";
+}
+
+function refreshOpsPill() {
+  const pill = document.querySelector<HTMLElement>(".ops-pill");
+  const status = document.getElementById("opsStatus");
+  const now = Date.now();
+  const state = computeOpsState(now);
+
+  pill?.classList.remove("is-live", "is-blank", "is-flash", "is-disconnected", "is-out-of-sync");
+  pill?.classList.add(`is-${state}`);
+  if (status) status.textContent = OPS_LABELS[state];
+
+  const shown = shownReport();
+  if (pill) {
+    pill.title = shown
+      ? `Students see: ${plainText(shown.report.titleText)}` +
+        `${shown.report.subtitleText ? ` — ${plainText(shown.report.subtitleText)}` : ""}` +
+        ` (reported ${Math.round((now - shown.at) / 1000)}s ago)`
+      : "No report from the Student View yet";
+  }
+}
+
+function formatClock(ms: number, round: (n: number) => number = Math.ceil): string {
+  const totalSec = Math.max(0, round(ms / 1000));
+  const m = Math.floor(totalSec / 60);
+  const s = totalSec % 60;
+  return `${String(m).padStart(2, "0")}:${String(s).padStart(2, "0")}`;
+}
+
+// Timer card readout: what the Student View's timer is doing, extrapolated between reports
+function refreshTimerStatus() {
+  const el = document.getElementById("timerStatus");
+  if (!el) return;
+
+  const shown = shownReport();
+  const timer = shown?.report.timer;
+  if (!shown || !timer || timer.mode === "off") {
+    el.toggleAttribute("hidden", true);
+    return;
+  }
+
+  const elapsed = timer.running ? Date.now() - shown.at : 0;
+  const remaining = formatClock(timer.remainingMs - elapsed);
+  const state = timer.running ? "running" : "paused";
+
+  el.innerHTML = "";
+  if (timer.mode === "clock") {
+    el.append("Showing the time of day");
+  } else if (timer.mode === "countup") {
+    el.append(`${formatClock(timer.elapsedMs + elapsed, Math.floor)} elapsed (${state})`);
+  } else if (timer.mode === "deadline") {
+    el.append(`${remaining} left`);
+  } else if (timer.phase) {
+    const name = document.createElement("strong");
+    name.textContent = timer.phase.name || `Phase ${timer.phase.index + 1}`;
+    el.append(`Phase ${timer.phase.index + 1} of ${timer.phase.count} · `, name, ` · ${remaining} (${state})`);
+  } else {
+    el.append(`${remaining} (${state})`);
+  }
+  el.toggleAttribute("hidden", false);
+
+  document.querySelectorAll<HTMLElement>("#phaseList .phase-row").forEach((row, i) => {
+    row.classList.toggle("is-current", timer.phase?.index === i);
+  });
 }
 
-function writeStoredSettings(s: AppSettings) {
-  localStorage.setItem("bg", s.bg);
-  localStorage.setItem("text", s.text);
-  localStorage.setItem("titleText", s.titleText);
-  localStorage.setItem("subtitleText", s.subtitleText);
-  localStorage.setItem("subtitleColor", s.subtitleColor);
-  localStorage.setItem("timerMode", s.timerMode);
-  localStorage.setItem("timerMin", String(s.timerMin));
-  localStorage.setItem("timerSec", String(s.timerSec));
+// Start/Pause reflect whether the Student View's timer is actually running
+function syncTimerButtons(running: boolean) {
+  const start = document.getElementById("timerStart") as HTMLButtonElement | null;
+  const pause = document.getElementById("timerPause") as HTMLButtonElement | null;
+  if (start) {
+    start.classList.toggle("is-running", running);
+    start.textContent = running ? "Running" : "Start";
+  }
+  if (pause) pause.disabled = !running;
 }
 
+const stateReportsReady = listenForStateReports(handleStateReport);
+
 
 
 const wrap = document.querySelector(".settings-wrap");
@@ -150,66 +441,385 @@ async function autoResizeWindow() {
 }
 
 window.addEventListener("DOMContentLoaded", () => {
+  const paletteSelect = must<HTMLSelectElement>("paletteSelect");
+  const newPalette = must<HTMLButtonElement>("newPalette");
+  const editPalette = must<HTMLButtonElement>("editPalette");
+  const paletteEditor = must<HTMLDivElement>("paletteEditor");
+  const paletteName = must<HTMLInputElement>("paletteName");
+  const swatchList = must<HTMLDivElement>("swatchList");
+  const addSwatch = must<HTMLButtonElement>("addSwatch");
+  const deletePalette = must<HTMLButtonElement>("deletePalette");
+
   const bgSelect = must<HTMLSelectElement>("bgSelect");
+  const contrastSelect = must<HTMLSelectElement>("contrastLevel");
+  const displayProfile = must<HTMLSelectElement>("displayProfile");
   const textSelect = must<HTMLSelectElement>("textSelect");
   const swapBtn = must<HTMLButtonElement>("swapBtn");
 
+  const flashPattern = must<HTMLSelectElement>("flashPattern");
+  const flashRepeats = must<HTMLInputElement>("flashRepeats");
+  const flashCycleMs = must<HTMLInputElement>("flashCycleMs");
+  const flashSummary = must<HTMLDivElement>("flashSummary");
+
   const timerMode = must<HTMLSelectElement>("timerMode");
   const timerInputs = must<HTMLDivElement>("timerInputs");
   const timerMin = must<HTMLInputElement>("timerMin");
   const timerSec = must<HTMLInputElement>("timerSec");
 
+  const deadlineInputs = must<HTMLDivElement>("deadlineInputs");
+  const timerDeadline = must<HTMLInputElement>("timerDeadline");
+
+  const scheduleInputs = must<HTMLDivElement>("scheduleInputs");
+  const phaseList = must<HTMLDivElement>("phaseList");
+  const addPhase = must<HTMLButtonElement>("addPhase");
+  const flashOnPhaseChangeInput = must<HTMLInputElement>("flashOnPhaseChange");
+
+  const alertInputs = must<HTMLDivElement>("alertInputs");
+  const timerUrgentMin = must<HTMLInputElement>("timerUrgentMin");
+  const alertList = must<HTMLDivElement>("alertList");
+  const addAlert = must<HTMLButtonElement>("addAlert");
+  const endActionEditor = must<HTMLDivElement>("endActionEditor");
+
+  const timerControls = must<HTMLDivElement>("timerControls");
   const timerStart = must<HTMLButtonElement>("timerStart");
   const timerPause = must<HTMLButtonElement>("timerPause");
   const timerReset = must<HTMLButtonElement>("timerReset");
-
-  const titleInput = must<HTMLInputElement>("titleInput");
-  const subtitleInput = must<HTMLInputElement>("subtitleInput");
+  const timerSkip = must<HTMLButtonElement>("timerSkip");
+  const timerExtend = must<HTMLButtonElement>("timerExtend");
+  const timerButtons = must<HTMLDivElement>("timerButtons");
+  const timerButtonsSecondary = must<HTMLDivElement>("timerButtonsSecondary");
+
+  const titleInput = must<HTMLTextAreaElement>("titleInput");
+  const subtitleInput = must<HTMLTextAreaElement>("subtitleInput");
+  const titleToolbar = must<HTMLDivElement>("titleToolbar");
+  const subtitleToolbar = must<HTMLDivElement>("subtitleToolbar");
+  const titleImages = must<HTMLDivElement>("titleImages");
+  const subtitleImages = must<HTMLDivElement>("subtitleImages");
+  const titlePreview = must<HTMLDivElement>("titlePreview");
+  const subtitlePreview = must<HTMLDivElement>("subtitlePreview");
+  const imageFile = must<HTMLInputElement>("imageFile");
+
+  const tickerOn = must<HTMLInputElement>("tickerOn");
+  const tickerSpeed = must<HTMLInputElement>("tickerSpeed");
+  const tickerList = must<HTMLDivElement>("tickerList");
+  const addTickerItem = must<HTMLButtonElement>("addTickerItem");
+
+  const scheduledNext = must<HTMLDivElement>("scheduledNext");
+  const scheduledList = must<HTMLDivElement>("scheduledList");
+  const addScheduledAction = must<HTMLButtonElement>("addScheduledAction");
+
+  const qrText = must<HTMLInputElement>("qrText");
+  const qrPreview = must<SVGSVGElement>("qrPreview");
+  const clearQr = must<HTMLButtonElement>("clearQr");
+  const qrError = must<HTMLDivElement>("qrError");
   const subtitleColor = must<HTMLSelectElement>("subtitleColor");
 
+  const quickMessagesEl = must<HTMLDivElement>("quickMessages");
+  const editQuickMessages = must<HTMLButtonElement>("editQuickMessages");
+  const quickEditor = must<HTMLDivElement>("quickEditor");
+  const quickMessageList = must<HTMLDivElement>("quickMessageList");
+
+  const hotkeyList = must<HTMLDivElement>("hotkeyList");
+  const resetHotkeys = must<HTMLButtonElement>("resetHotkeys");
+
+  const remoteOn = must<HTMLInputElement>("remoteOn");
+  const remotePort = must<HTMLInputElement>("remotePort");
+  const remoteStatusEl = must<HTMLDivElement>("remoteStatus");
+  const remoteLinks = must<HTMLDivElement>("remoteLinks");
+  const remoteQr = must<SVGSVGElement>("remoteQr");
+  const newRemoteToken = must<HTMLButtonElement>("newRemoteToken");
+  const remoteError = must<HTMLDivElement>("remoteError");
+
+  const controlOn = must<HTMLInputElement>("controlOn");
+  const controlPort = must<HTMLInputElement>("controlPort");
+  const controlStatusEl = must<HTMLDivElement>("controlStatus");
+  const controlError = must<HTMLDivElement>("controlError");
+  const controlToken = must<HTMLInputElement>("controlToken");
+  const newControlToken = must<HTMLButtonElement>("newControlToken");
+  const addQuickMessage = must<HTMLButtonElement>("addQuickMessage");
+
+  const sceneList = must<HTMLDivElement>("sceneList");
+  const sceneName = must<HTMLInputElement>("sceneName");
+  const saveScene = must<HTMLButtonElement>("saveScene");
+
+  const exportConfig = must<HTMLButtonElement>("exportConfig");
+  const importConfig = must<HTMLButtonElement>("importConfig");
+  const importFile = must<HTMLInputElement>("importFile");
+  const importError = must<HTMLDivElement>("importError");
+  const importPreview = must<HTMLDivElement>("importPreview");
+  const importChanges = must<HTMLUListElement>("importChanges");
+  const importApply = must<HTMLButtonElement>("importApply");
+  const importCancel = must<HTMLButtonElement>("importCancel");
+
   const subtitleSelect = document.getElementById("subtitleSelect") as HTMLSelectElement | null;
   const clearSubtitle = document.getElementById("clearSubtitle") as HTMLButtonElement | null;
 
-  // Populate BG list
-  fillSelect(bgSelect, Object.keys(PCC));
+  for (const [level, { label }] of Object.entries(CONTRAST_LEVELS)) {
+    const opt = document.createElement("option");
+    opt.value = level;
+    opt.textContent = label;
+    contrastSelect.appendChild(opt);
+  }
+  contrastSelect.value = contrastLevel;
+
+  for (const [profile, label] of Object.entries(DISPLAY_PROFILE_LABELS)) {
+    const opt = document.createElement("option");
+    opt.value = profile;
+    opt.textContent = label;
+    displayProfile.appendChild(opt);
+  }
+
+  for (const [pattern, label] of Object.entries(FLASH_PATTERN_LABELS)) {
+    const opt = document.createElement("option");
+    opt.value = pattern;
+    opt.textContent = label;
+    flashPattern.appendChild(opt);
+  }
+  flashCycleMs.min = String(MIN_FLASH_CYCLE_MS);
+  flashCycleMs.max = String(MAX_FLASH_CYCLE_MS);
+  flashRepeats.max = String(MAX_FLASH_REPEATS);
+
+  const reducedMotionQuery = window.matchMedia("(prefers-reduced-motion: reduce)");
+
+  // What the Student View will actually do, reduced motion included
+  const refreshFlashSummary = (s: AppSettings) => {
+    const calm = calmMotion(s.displayProfile, reducedMotionQuery.matches);
+    const plan = flashPlan(s, calm);
+    flashSummary.textContent =
+      `${describeFlash(plan)}${calm ? " · border only (reduced motion)" : ""}. Never 3 or more flashes/s.`;
+  };
+
+  // Same encoder as the Student View, so a code that shows here shows there
+  const refreshQrPreview = () => {
+    const text = qrText.value.trim();
+    const shown = renderQrCode(qrPreview, text);
+    qrPreview.toggleAttribute("hidden", !shown);
+    qrError.textContent = text && !shown ? "Too long for a QR code; shorten the link or text." : "";
+    qrError.toggleAttribute("hidden", !text || shown);
+  };
+
+  // Rich text editors: the textareas hold the markup (richText.ts), previews
+  // show it in the Student View's colors whenever it's more than plain text
+  let images: StoredImage[] = readImages();
+  let imageError: string | null = null;
+  // Which editor "Add image…" inserts into
+  let imageTarget: HTMLTextAreaElement = titleInput;
+
+  const refreshRichPreviews = (s: AppSettings) => {
+    for (const [preview, source, color] of [
+      [titlePreview, s.titleText, s.text],
+      [subtitlePreview, s.subtitleText, s.subtitleColor],
+    ] as const) {
+      const show = hasRichMarkup(source);
+      preview.toggleAttribute("hidden", !show);
+      if (!show) continue;
+      preview.style.setProperty("--app-bg", colorHex(s.bg) ?? "");
+      preview.style.setProperty("--app-text", colorHex(color) ?? "");
+      renderRichText(preview, source, images);
+    }
+  };
+
+  const renderImageTrays = () => {
+    for (const [tray, input] of [
+      [titleImages, titleInput],
+      [subtitleImages, subtitleInput],
+    ] as const) {
+      renderImageTray(tray, images, imageError, {
+        onInsert: (image) => insertAtCursor(input, imageToken(image.id)),
+        onRemove: (i) => {
+          images.splice(i, 1);
+          writeImages(images);
+          imageError = null;
+          renderImageTrays();
+          refreshRichPreviews(snapshotSettings());
+        },
+        onAdd: () => {
+          imageTarget = input;
+          imageFile.click();
+        },
+      });
+    }
+    void autoResizeWindow();
+  };
+
+  for (const [toolbar, input, tray] of [
+    [titleToolbar, titleInput, titleImages],
+    [subtitleToolbar, subtitleInput, subtitleImages],
+  ] as const) {
+    renderRichToolbar(toolbar, input, () => {
+      tray.toggleAttribute("hidden", !tray.hasAttribute("hidden"));
+      void autoResizeWindow();
+    });
+  }
+
+  imageFile.addEventListener("change", async () => {
+    const file = imageFile.files?.[0];
+    imageFile.value = "";
+    if (!file) return;
+
+    const result = await imageFromFile(file);
+    if (!result.ok) {
+      imageError = result.error;
+    } else if (images.length >= MAX_IMAGES) {
+      imageError = `Up to ${MAX_IMAGES} images; remove one first.`;
+    } else {
+      try {
+        writeImages([...images, result.value]);
+        images = readImages();
+        imageError = null;
+        insertAtCursor(imageTarget, imageToken(result.value.id));
+      } catch {
+        imageError = "Not enough room to store this image; try a smaller one.";
+      }
+    }
+    renderImageTrays();
+  });
 
   // Load stored settings
   const stored = readStoredSettings();
-  bgSelect.value = stored.bg;
 
-  const rebuildTextSelect = () => {
-    const allowed = getAllowedTextKeys(bgSelect.value);
-    const prev = textSelect.value || stored.text;
-    fillSelect(textSelect, allowed);
-    textSelect.value = allowed.includes(prev) ? prev : (allowed[0] ?? "navy");
+  // Each rebuild keeps `prefer` when the palette and contrast rules allow it
+  const rebuildBgSelect = (prefer = bgSelect.value || stored.bg) => {
+    fillSelect(bgSelect, withValue(activeColors(), prefer));
+    bgSelect.value = prefer;
   };
-  rebuildTextSelect();
-  if (getAllowedTextKeys(bgSelect.value).includes(stored.text)) {
-    textSelect.value = stored.text;
-  }
 
-  const rebuildSubtitleSelect = () => {
-    const allowed = getAllowedTextKeys(bgSelect.value);
-    fillSelect(subtitleColor, allowed);
+  const rebuildTextSelect = (prefer = textSelect.value || stored.text) => {
+    const allowed = getAllowedTextKeys(bgSelect.value, prefer);
+    fillSelect(textSelect, allowed, bgSelect.value);
+    textSelect.value = allowed.includes(prefer) ? prefer : (allowed[0] ?? "navy");
   };
-  rebuildSubtitleSelect();
-  if (getAllowedTextKeys(bgSelect.value).includes(stored.text)) {
-    textSelect.value = stored.text;
-  }
-  
 
-  timerMode.value = stored.timerMode;
-  timerMin.value = String(clampInt(stored.timerMin, 0, 9999));
-  timerSec.value = String(clampInt(stored.timerSec, 0, 59));
-  timerInputs.toggleAttribute("hidden", timerMode.value !== "countdown");
+  const rebuildSubtitleSelect = (prefer = subtitleColor.value || stored.subtitleColor) => {
+    const allowed = getAllowedTextKeys(bgSelect.value, prefer);
+    fillSelect(subtitleColor, allowed, bgSelect.value);
+    subtitleColor.value = allowed.includes(prefer) ? prefer : (allowed[0] ?? "white");
+  };
 
-  titleInput.value = stored.titleText;
-  subtitleInput.value = stored.subtitleText;
-  subtitleColor.value = stored.subtitleColor;
+  rebuildBgSelect();
+
+  // Edited in place by the phase rows; re-rendered only on add/remove so focus survives typing
+  const phases: TimerPhase[] = [];
+  const alerts: TimerAlert[] = [];
+  const endAction: TimerAlertEffect = { flash: false, subtitleText: "", bg: "" };
+  const quickMessages: QuickMessage[] = readQuickMessages();
+  const tickerItems: TickerItem[] = [];
+
+  const syncTimerSections = () => {
+    const mode = timerMode.value;
+    const runsFromDuration = mode === "countdown" || mode === "schedule";
+    timerInputs.toggleAttribute("hidden", mode !== "countdown");
+    deadlineInputs.toggleAttribute("hidden", mode !== "deadline");
+    scheduleInputs.toggleAttribute("hidden", mode !== "schedule");
+    alertInputs.toggleAttribute("hidden", !(runsFromDuration || mode === "deadline"));
+    timerControls.toggleAttribute("hidden", mode === "off");
+
+    // Deadline and clock follow the wall clock: nothing to start or pause
+    timerStart.toggleAttribute("hidden", !(runsFromDuration || mode === "countup"));
+    timerPause.toggleAttribute("hidden", !(runsFromDuration || mode === "countup"));
+    timerReset.toggleAttribute("hidden", mode === "clock");
+    timerSkip.toggleAttribute("hidden", mode !== "schedule");
+    timerExtend.toggleAttribute("hidden", !(runsFromDuration || mode === "deadline"));
+    timerButtons.toggleAttribute("hidden", mode === "clock");
+    timerButtonsSecondary.toggleAttribute("hidden", !(runsFromDuration || mode === "deadline"));
+
+    addPhase.disabled = phases.length >= MAX_PHASES;
+    addAlert.disabled = alerts.length >= MAX_ALERTS;
+  };
 
-  enhanceAllThemeSelects();
+  const renderPhases = () => {
+    renderPhaseList(phaseList, phases, {
+      onEdit: () => queuePush(150),
+      onRemove: (i) => {
+        phases.splice(i, 1);
+        renderPhases();
+        queuePush(0);
+      },
+    });
+    syncTimerSections();
+    refreshTimerStatus();
+  };
+  renderPhases();
+
+  const renderAlerts = () => {
+    renderAlertList(alertList, alerts, {
+      onEdit: () => queuePush(150),
+      onRemove: (i) => {
+        alerts.splice(i, 1);
+        renderAlerts();
+        queuePush(0);
+      },
+    });
+    syncTimerSections();
+  };
+
+  const renderTicker = () => {
+    renderTickerList(tickerList, tickerItems, {
+      onEdit: () => queuePush(150),
+      onTogglePause: () => {
+        renderTicker();
+        queuePush(0);
+      },
+      onRemove: (i) => {
+        tickerItems.splice(i, 1);
+        renderTicker();
+        queuePush(0);
+      },
+    });
+    addTickerItem.disabled = tickerItems.length >= MAX_TICKER_ITEMS;
+    void autoResizeWindow();
+  };
+
+  // Put a full settings snapshot into the form (startup, scene recall).
+  // Doesn't push: callers decide when the Student View should see it.
+  const loadForm = (s: AppSettings) => {
+    rebuildBgSelect(s.bg);
+    rebuildTextSelect(s.text);
+    rebuildSubtitleSelect(s.subtitleColor);
+
+    displayProfile.value = s.displayProfile;
+
+    flashPattern.value = s.flashPattern;
+    flashRepeats.value = String(clampInt(s.flashRepeats, 1, MAX_FLASH_REPEATS));
+    flashCycleMs.value = String(clampInt(s.flashCycleMs, MIN_FLASH_CYCLE_MS, MAX_FLASH_CYCLE_MS));
+    refreshFlashSummary(s);
+    refreshRichPreviews(s);
+
+    qrText.value = s.qrText;
+    refreshQrPreview();
+
+    tickerOn.checked = s.tickerOn;
+    tickerSpeed.value = String(clampInt(s.tickerSpeed, MIN_TICKER_SPEED, MAX_TICKER_SPEED));
+    tickerItems.splice(0, tickerItems.length, ...s.tickerItems.map((item) => ({ ...item })));
+    renderTicker();
+
+    titleInput.value = s.titleText;
+    subtitleInput.value = s.subtitleText;
+
+    timerMode.value = s.timerMode;
+    timerMin.value = String(clampInt(s.timerMin, 0, 9999));
+    timerSec.value = String(clampInt(s.timerSec, 0, 59));
+    flashOnPhaseChangeInput.checked = s.flashOnPhaseChange;
+    timerDeadline.value = s.timerDeadline;
+    timerUrgentMin.value = String(clampInt(s.timerUrgentMin, 0, 9999));
+
+    phases.splice(0, phases.length, ...s.timerPhases.map((p) => ({ ...p })));
+    alerts.splice(0, alerts.length, ...s.timerAlerts.map((a) => ({ ...a })));
+    Object.assign(endAction, s.timerEndAction);
+    endActionEditor.replaceChildren(...alertEffectFields(endAction, () => queuePush(150)));
+    renderPhases();
+    renderAlerts();
+
+    // Enhanced selects only re-read their value on these events
+    for (const select of [bgSelect, textSelect, subtitleColor, displayProfile, flashPattern, timerMode]) {
+      select.dispatchEvent(new Event("options:changed", { bubbles: false }));
+    }
+    syncQuickButtons();
+  };
 
-  syncQuickButtons(subtitleInput.value);
+  loadForm(stored);
+  renderImageTrays();
+  enhanceAllThemeSelects();
 
   // Debounced + coalesced settings push
   let pendingTimer: number | null = null;
@@ -222,13 +832,35 @@ window.addEventListener("DOMContentLoaded", () => {
       text: textSelect.value,
       subtitleText: subtitleInput.value,
       subtitleColor: subtitleColor.value,
-      timerMode: timerMode.value === "countdown" ? "countdown" : "off",
+      timerMode: isTimerMode(timerMode.value) ? timerMode.value : "off",
       timerMin: clampInt(Number(timerMin.value || 0), 0, 9999),
       timerSec: clampInt(Number(timerSec.value || 0), 0, 59),
+      timerPhases: phases.map((p) => ({ ...p })),
+      flashOnPhaseChange: flashOnPhaseChangeInput.checked,
+      timerDeadline: DEADLINE_RE.test(timerDeadline.value) ? timerDeadline.value : "",
+      timerUrgentMin: clampInt(Number(timerUrgentMin.value || 0), 0, 9999),
+      timerAlerts: alerts.map((a) => ({ ...a })),
+      timerEndAction: { ...endAction },
+      displayProfile: isDisplayProfile(displayProfile.value) ? displayProfile.value : "standard",
+      flashPattern: isFlashPattern(flashPattern.value) ? flashPattern.value : "invert",
+      flashCycleMs: clampInt(Number(flashCycleMs.value || 0), MIN_FLASH_CYCLE_MS, MAX_FLASH_CYCLE_MS),
+      flashRepeats: clampInt(Number(flashRepeats.value || 0), 1, MAX_FLASH_REPEATS),
+      qrText: qrText.value.slice(0, MAX_QR_TEXT),
+      tickerOn: tickerOn.checked,
+      tickerSpeed: clampInt(Number(tickerSpeed.value || 0), MIN_TICKER_SPEED, MAX_TICKER_SPEED),
+      tickerItems: tickerItems.map((item) => ({ ...item })),
     };
 
+    tickerSpeed.value = String(next.tickerSpeed);
+
+    flashCycleMs.value = String(next.flashCycleMs);
+    flashRepeats.value = String(next.flashRepeats);
+    refreshFlashSummary(next);
+    refreshRichPreviews(next);
+
     timerMin.value = String(next.timerMin);
     timerSec.value = String(next.timerSec);
+    timerUrgentMin.value = String(next.timerUrgentMin);
 
     return next;
   }
@@ -239,8 +871,9 @@ window.addEventListener("DOMContentLoaded", () => {
     if (key === lastSent) return;
     lastSent = key;
 
-    writeStoredSettings(next);
-    emit("settings:changed", next).catch(console.error);
+    const views = targetView === ALL_VIEWS ? allViews().map((v) => v.label) : [targetView];
+    for (const view of views) writeStoredSettings(next, view);
+    sendTracked({ type: "settings", settings: next }).catch(console.error);
   }
 
   function queuePush(delayMs = 80) {
@@ -271,6 +904,34 @@ window.addEventListener("DOMContentLoaded", () => {
     void autoResizeWindow();
   });
 
+  contrastSelect.addEventListener("change", () => {
+    if (!isContrastLevel(contrastSelect.value)) return;
+    contrastLevel = contrastSelect.value;
+    writeContrastLevel(contrastLevel);
+
+    // Same as a background change: colors that no longer pass get replaced
+    const prevText = textSelect.value;
+    const prevSubColor = subtitleColor.value;
+    rebuildTextSelect();
+    rebuildSubtitleSelect();
+    if (textSelect.value !== prevText) {
+      textSelect.dispatchEvent(new Event("change", { bubbles: true }));
+    }
+    if (subtitleColor.value !== prevSubColor) {
+      subtitleColor.dispatchEvent(new Event("change", { bubbles: true }));
+    }
+
+    queuePush(0);
+    void autoResizeWindow();
+  });
+
+  displayProfile.addEventListener("change", () => queuePush(0));
+
+  flashPattern.addEventListener("change", () => queuePush(0));
+  flashRepeats.addEventListener("input", () => queuePush(150));
+  flashCycleMs.addEventListener("input", () => queuePush(150));
+  reducedMotionQuery.addEventListener("change", () => refreshFlashSummary(snapshotSettings()));
+
   textSelect.addEventListener("change", () => {
     queuePush(0);
     void autoResizeWindow();
@@ -284,15 +945,10 @@ window.addEventListener("DOMContentLoaded", () => {
   swapBtn.addEventListener("click", () => {
     const oldBg = bgSelect.value;
     const oldText = textSelect.value;
-    const oldSubtitleColor = subtitleColor.value;
-
-    bgSelect.value = oldText;
-    rebuildTextSelect();
-    rebuildSubtitleSelect();
 
-    const allowed = getAllowedTextKeys(bgSelect.value);
-    textSelect.value = allowed.includes(oldBg) ? oldBg : (allowed[0] ?? oldText);
-    subtitleColor.value = allowed.includes(oldBg) ? oldBg : (allowed[0] ?? oldSubtitleColor);
+    rebuildBgSelect(oldText);
+    rebuildTextSelect(oldBg);
+    rebuildSubtitleSelect(oldBg);
 
     bgSelect.dispatchEvent(new Event("change", { bubbles: true }));
     textSelect.dispatchEvent(new Event("change", { bubbles: true }));
@@ -304,7 +960,7 @@ window.addEventListener("DOMContentLoaded", () => {
 
   // Timer handlers
   timerMode.addEventListener("change", () => {
-    timerInputs.toggleAttribute("hidden", timerMode.value !== "countdown");
+    syncTimerSections();
     queuePush(0);
     void autoResizeWindow();
   });
@@ -319,43 +975,353 @@ window.addEventListener("DOMContentLoaded", () => {
     void autoResizeWindow();
   });
 
+  addPhase.addEventListener("click", () => {
+    if (phases.length >= MAX_PHASES) return;
+    phases.push({
+      name: `Phase ${phases.length + 1}`,
+      minutes: 10,
+      seconds: 0,
+      titleText: "",
+      subtitleText: "",
+    });
+    renderPhases();
+    queuePush(0);
+    void autoResizeWindow();
+  });
+
+  flashOnPhaseChangeInput.addEventListener("change", () => queuePush(0));
+
+  timerDeadline.addEventListener("change", () => queuePush(0));
+
+  timerUrgentMin.addEventListener("input", () => queuePush(150));
+
+  addAlert.addEventListener("click", () => {
+    if (alerts.length >= MAX_ALERTS) return;
+    // Suggest the next step down from the smallest existing threshold
+    const smallest = Math.min(...alerts.map((a) => a.minutes), 15);
+    const minutes = alerts.length === 0 ? 5 : Math.max(1, smallest > 5 ? 5 : smallest - 1);
+    alerts.push({
+      minutes,
+      flash: true,
+      subtitleText: `${minutes} MINUTE${minutes === 1 ? "" : "S"} REMAINING`,
+      bg: "",
+    });
+    renderAlerts();
+    queuePush(0);
+    void autoResizeWindow();
+  });
+
   // Title/Sub handlers
   titleInput.addEventListener("input", () => {
+    syncQuickButtons();
     queuePush(150);
     void autoResizeWindow();
   });
 
   subtitleInput.addEventListener("input", () => {
+    syncQuickButtons();
     queuePush(150);
     void autoResizeWindow();
   });
 
- 
-  function syncQuickButtons(current: string) {
-    document.querySelectorAll<HTMLButtonElement>(".quick-btn").forEach((b) => {
-      const val = b.dataset.sub ?? "";
-      b.classList.toggle("active", val === current && current.length > 0);
+  qrText.addEventListener("input", () => {
+    refreshQrPreview();
+    syncQuickButtons();
+    queuePush(150);
+    void autoResizeWindow();
+  });
+
+  tickerOn.addEventListener("change", () => queuePush(0));
+  tickerSpeed.addEventListener("input", () => queuePush(150));
+
+  addTickerItem.addEventListener("click", () => {
+    if (tickerItems.length >= MAX_TICKER_ITEMS) return;
+    tickerItems.push({ text: "", paused: false });
+    // An announcement is usually wanted on screen as soon as it's written
+    tickerOn.checked = true;
+    renderTicker();
+    tickerList.querySelector<HTMLInputElement>(".phase-row:last-child input")?.focus();
+    queuePush(0);
+  });
+
+  clearQr.addEventListener("click", () => {
+    qrText.value = "";
+    refreshQrPreview();
+    syncQuickButtons();
+    queuePush(0);
+    void autoResizeWindow();
+  });
+
+  // Quick messages: a message is "on" while its subtitle (and title and QR code, if it sets them) is showing
+  function isQuickActive(message: QuickMessage): boolean {
+    const current = subtitleInput.value;
+    if (!current || message.subtitleText !== current) return false;
+    if (message.qrText && message.qrText !== qrText.value) return false;
+    return !message.titleText || message.titleText === titleInput.value;
+  }
+
+  function syncQuickButtons() {
+    quickMessagesEl.querySelectorAll<HTMLButtonElement>(".quick-btn").forEach((b) => {
+      const message = quickMessages.find((m) => m.id === b.dataset.id);
+      b.classList.toggle("active", !!message && isQuickActive(message));
     });
   }
-  
-  document.querySelectorAll<HTMLButtonElement>(".quick-btn").forEach((btn) => {
-    btn.addEventListener("mousedown", (e) => {
-      // Prevent focus flicker on macOS WebKit (the “glitch”)
-      e.preventDefault();
+
+  const pickQuickMessage = (message: QuickMessage) => {
+    // toggle behavior: picking the showing message clears the subtitle (and its QR code)
+    if (isQuickActive(message)) {
+      subtitleInput.value = "";
+      if (message.qrText) qrText.value = "";
+    } else {
+      subtitleInput.value = message.subtitleText;
+      if (message.titleText) titleInput.value = message.titleText;
+      if (message.qrText) qrText.value = message.qrText;
+
+      // Colors the background can't carry are skipped, same as the theme selects
+      if (message.bg) rebuildBgSelect(message.bg);
+      rebuildTextSelect(message.text || textSelect.value);
+      rebuildSubtitleSelect(message.subtitleColor || subtitleColor.value);
+
+      for (const select of [bgSelect, textSelect, subtitleColor]) {
+        select.dispatchEvent(new Event("options:changed", { bubbles: false }));
+      }
+    }
+
+    // update UI immediately (no debounce delay)
+    refreshQrPreview();
+    syncQuickButtons();
+
+    // push immediately so main window updates instantly
+    queuePush(0);
+    void autoResizeWindow();
+  };
+
+  // Hotkeys: the main Student View registers them and runs them like the tray
+  // does; this card edits the map and shows what couldn't be registered
+  let hotkeys = readHotkeys();
+
+  const hotkeyLabel = (id: string): string => {
+    if (isHotkeyAction(id)) return HOTKEY_LABELS[id];
+    return quickMessages.find((m) => quickHotkeyId(m.id) === id)?.label ?? "a removed quick message";
+  };
+
+  const saveHotkeys = () => {
+    writeHotkeys(hotkeys);
+    renderHotkeys();
+    pauseHotkeys(false).catch(console.error);
+  };
+
+  const renderHotkeys = () => {
+    const map = activeHotkeys(hotkeys, quickMessages.map((m) => m.id));
+    const conflicts = hotkeyConflicts(map, hotkeyLabel);
+    const rows = [
+      ...Object.keys(HOTKEY_LABELS).map((id) => ({ id, label: hotkeyLabel(id) })),
+      ...quickMessages.map((m) => ({ id: quickHotkeyId(m.id), label: `Quick: ${m.label}` })),
+    ];
+    renderHotkeyList(hotkeyList, rows, map, new Map([...readHotkeyFailures(), ...conflicts]), {
+      onRecording: (recording) => pauseHotkeys(recording).catch(console.error),
+      onRecord: (id, accelerator) => {
+        hotkeys[id] = accelerator;
+        saveHotkeys();
+      },
+      onClear: (id) => {
+        delete hotkeys[id];
+        saveHotkeys();
+      },
     });
-  
-    btn.addEventListener("click", () => {
-      const val = btn.dataset.sub ?? "";
-  
-      // toggle behavior
-      subtitleInput.value = (subtitleInput.value === val) ? "" : val;
-  
-      // update UI immediately (no debounce delay)
-      syncQuickButtons(subtitleInput.value);
-  
-      // push immediately so main window updates instantly
-      queuePush(0);
+    void autoResizeWindow();
+  };
+
+  resetHotkeys.addEventListener("click", () => {
+    hotkeys = { ...DEFAULT_HOTKEYS };
+    saveHotkeys();
+  });
+
+  // The main window registers after every change and stores what the system refused
+  window.addEventListener("storage", (e) => {
+    if (e.key === HOTKEY_FAILURES_KEY) renderHotkeys();
+  });
+
+  // Closing in the middle of recording mustn't leave the hotkeys off
+  void getCurrentWindow().onCloseRequested(async () => {
+    await pauseHotkeys(false).catch(console.error);
+  });
+
+  // Remote control: the main window starts it at launch, this card turns it on and off
+  let remote = readRemoteConfig();
+
+  const showRemote = (status: RemoteStatus | null, error: string | null) => {
+    const running = status?.running ?? false;
+    remoteStatusEl.textContent = running
+      ? `Listening on port ${status!.port}. Open a link on the other device, or scan the code.`
+      : "Off";
+    const urls = running ? pairingUrls(status!, remote.token) : [];
+    remoteLinks.replaceChildren(
+      ...urls.map((url) => {
+        const input = document.createElement("input");
+        input.type = "text";
+        input.className = "theme-input";
+        input.readOnly = true;
+        input.value = url;
+        input.addEventListener("focus", () => input.select());
+        return input;
+      })
+    );
+    // Only the LAN address helps a phone; 127.0.0.1 is this machine
+    const lanUrl = urls.length > 1 ? urls[urls.length - 1] : "";
+    remoteQr.toggleAttribute("hidden", !(lanUrl && renderQrCode(remoteQr, lanUrl)));
+    remoteError.textContent = error ?? "";
+    remoteError.toggleAttribute("hidden", !error);
+    void autoResizeWindow();
+  };
+
+  const applyRemote = async () => {
+    writeRemoteConfig(remote);
+    try {
+      if (remote.enabled) {
+        showRemote(await startRemote(remote), null);
+      } else {
+        await stopRemote();
+        showRemote(null, null);
+      }
+    } catch (e) {
+      showRemote(null, String(e));
+    }
+  };
+
+  remoteOn.checked = remote.enabled;
+  remotePort.value = String(remote.port);
+  remoteStatus()
+    .then((status) => showRemote(status, null))
+    .catch((e) => showRemote(null, String(e)));
+
+  remoteOn.addEventListener("change", () => {
+    remote = { ...remote, enabled: remoteOn.checked };
+    void applyRemote();
+  });
+
+  remotePort.addEventListener("change", () => {
+    const port = clampInt(Number(remotePort.value || DEFAULT_REMOTE_PORT), MIN_LISTEN_PORT, MAX_LISTEN_PORT);
+    remotePort.value = String(port);
+    if (port === remote.port) return;
+    remote = { ...remote, port };
+    void applyRemote();
+  });
+
+  // Paired devices keep working until the next command, which then gets refused
+  newRemoteToken.addEventListener("click", () => {
+    remote = { ...remote, token: newPairingToken() };
+    void applyRemote();
+  });
+
+  // Line commands (control.rs): the main window opens the socket at launch, this card turns it on and off
+  let control = readControlConfig();
+
+  const showControl = (status: ControlStatus | null, error: string | null) => {
+    controlStatusEl.textContent = status?.running
+      ? `Listening on 127.0.0.1:${status.port}. Start with AUTH and the token, then HELP for the commands.`
+      : "Off";
+    controlError.textContent = error ?? "";
+    controlError.toggleAttribute("hidden", !error);
+    void autoResizeWindow();
+  };
+
+  const applyControl = async () => {
+    writeControlConfig(control);
+    try {
+      if (control.enabled) {
+        showControl(await startControl(control), null);
+      } else {
+        await stopControl();
+        showControl(null, null);
+      }
+    } catch (e) {
+      showControl(null, String(e));
+    }
+  };
+
+  controlOn.checked = control.enabled;
+  controlPort.value = String(control.port);
+  controlToken.value = control.token;
+  controlToken.addEventListener("focus", () => controlToken.select());
+  controlStatus()
+    .then((status) => showControl(status, null))
+    .catch((e) => showControl(null, String(e)));
+
+  controlOn.addEventListener("change", () => {
+    control = { ...control, enabled: controlOn.checked };
+    void applyControl();
+  });
+
+  controlPort.addEventListener("change", () => {
+    const port = clampInt(Number(controlPort.value || DEFAULT_CONTROL_PORT), MIN_LISTEN_PORT, MAX_LISTEN_PORT);
+    controlPort.value = String(port);
+    if (port === control.port) return;
+    control = { ...control, port };
+    void applyControl();
+  });
+
+  // Restarts the socket, so open connections close and have to pair again
+  newControlToken.addEventListener("click", () => {
+    control = { ...control, token: newPairingToken() };
+    controlToken.value = control.token;
+    void applyControl();
+  });
+
+  const renderQuickButtons = () => {
+    renderQuickGrid(quickMessagesEl, quickMessages, pickQuickMessage);
+    syncQuickButtons();
+    renderHotkeys();
+  };
+
+  const renderQuickLibrary = () => {
+    renderQuickEditor(quickMessageList, quickMessages, {
+      onEdit: () => {
+        writeQuickMessages(quickMessages);
+        renderQuickButtons();
+      },
+      onMove: (from, to) => {
+        if (to < 0 || to >= quickMessages.length) return;
+        const [message] = quickMessages.splice(from, 1);
+        quickMessages.splice(to, 0, message);
+        writeQuickMessages(quickMessages);
+        renderQuickLibrary();
+      },
+      onRemove: (i) => {
+        quickMessages.splice(i, 1);
+        writeQuickMessages(quickMessages);
+        renderQuickLibrary();
+      },
+    });
+    addQuickMessage.disabled = quickMessages.length >= MAX_QUICK_MESSAGES;
+    renderQuickButtons();
+    void autoResizeWindow();
+  };
+  renderQuickLibrary();
+
+  editQuickMessages.addEventListener("click", () => {
+    const editing = quickEditor.hasAttribute("hidden");
+    quickEditor.toggleAttribute("hidden", !editing);
+    editQuickMessages.setAttribute("aria-pressed", String(editing));
+    void autoResizeWindow();
+  });
+
+  addQuickMessage.addEventListener("click", () => {
+    if (quickMessages.length >= MAX_QUICK_MESSAGES) return;
+    // New entries start from whatever is on screen, in the last category used
+    quickMessages.push({
+      id: newQuickMessageId(),
+      label: "NEW",
+      category: quickMessages[quickMessages.length - 1]?.category ?? "General",
+      subtitleText: subtitleInput.value,
+      titleText: "",
+      bg: "",
+      text: "",
+      subtitleColor: "",
+      qrText: "",
     });
+    writeQuickMessages(quickMessages);
+    renderQuickLibrary();
   });
 
   if (subtitleSelect) {
@@ -378,33 +1344,392 @@ window.addEventListener("DOMContentLoaded", () => {
     });
   }
 
-  // Timer controls -> main window
-  timerStart.addEventListener("click", () => {
-    pushNow();
-    emit("timer:start").catch(console.error);
-  });
+  // Palettes: switching or editing one re-offers colors; what's on screen stays put
+  const fillPaletteSelect = () => {
+    paletteSelect.innerHTML = "";
+    const builtIn = document.createElement("option");
+    builtIn.value = PCC_PALETTE_ID;
+    builtIn.textContent = "PCC brand";
+    paletteSelect.appendChild(builtIn);
+    for (const palette of palettes) {
+      const opt = document.createElement("option");
+      opt.value = palette.id;
+      opt.textContent = palette.name || "Untitled palette";
+      paletteSelect.appendChild(opt);
+    }
+    if (!palettes.some((p) => p.id === activePaletteId)) activePaletteId = PCC_PALETTE_ID;
+    paletteSelect.value = activePaletteId;
+    paletteSelect.dispatchEvent(new Event("options:changed", { bubbles: false }));
+  };
 
-  timerPause.addEventListener("click", () => {
-    emit("timer:pause").catch(console.error);
-  });
+  const refreshColorChoices = () => {
+    const prevText = textSelect.value;
+    const prevSubColor = subtitleColor.value;
+    rebuildBgSelect();
+    rebuildTextSelect();
+    rebuildSubtitleSelect();
+    // Contrast can still force a change, e.g. after editing the swatch in use
+    if (textSelect.value !== prevText || subtitleColor.value !== prevSubColor) queuePush(0);
 
-  timerReset.addEventListener("click", () => {
-    pushNow();
-    emit("timer:reset").catch(console.error);
-  });
+    // Row editors build their selects on render
+    renderAlerts();
+    endActionEditor.replaceChildren(...alertEffectFields(endAction, () => queuePush(150)));
+    renderQuickLibrary();
+  };
 
-  // Initial sync
-  pushNow();
+  const activePalette = () => palettes.find((p) => p.id === activePaletteId);
+
+  const renderPaletteEditor = () => {
+    const palette = activePalette();
+    editPalette.disabled = !palette;
+    newPalette.disabled = palettes.length >= MAX_PALETTES;
+    if (!palette) {
+      // The PCC palette is built in: nothing to edit
+      paletteEditor.toggleAttribute("hidden", true);
+      editPalette.setAttribute("aria-pressed", "false");
+      return;
+    }
 
-  initCollapsibles();
+    paletteName.value = palette.name;
+    renderSwatchList(swatchList, palette.swatches, {
+      onEdit: () => {
+        writePalettes(palettes);
+        refreshColorChoices();
+      },
+      onRemove: (i) => {
+        palette.swatches.splice(i, 1);
+        writePalettes(palettes);
+        renderPaletteEditor();
+        refreshColorChoices();
+      },
+    });
+    addSwatch.disabled = palette.swatches.length >= MAX_SWATCHES;
+    void autoResizeWindow();
+  };
 
+  const selectPalette = (id: string) => {
+    activePaletteId = id;
+    writeActivePaletteId(id);
+    fillPaletteSelect();
+    renderPaletteEditor();
+    refreshColorChoices();
+  };
 
-   // After initial UI is fully built and values set
-   void autoResizeWindow();
-   setTimeout(() => void autoResizeWindow(), 50);
-   setTimeout(() => void autoResizeWindow(), 250);
- 
-   // Resize on layout changes
+  fillPaletteSelect();
+  renderPaletteEditor();
+
+  paletteSelect.addEventListener("change", () => selectPalette(paletteSelect.value));
+
+  newPalette.addEventListener("click", () => {
+    if (palettes.length >= MAX_PALETTES) return;
+    const palette: CustomPalette = {
+      id: newPaletteId(),
+      name: `Palette ${palettes.length + 1}`,
+      swatches: [
+        { name: "White", hex: "#ffffff" },
+        { name: "Black", hex: "#000000" },
+      ],
+    };
+    palettes.push(palette);
+    writePalettes(palettes);
+    selectPalette(palette.id);
+    paletteEditor.toggleAttribute("hidden", false);
+    editPalette.setAttribute("aria-pressed", "true");
+    paletteName.focus();
+    paletteName.select();
+  });
+
+  editPalette.addEventListener("click", () => {
+    const editing = paletteEditor.hasAttribute("hidden");
+    paletteEditor.toggleAttribute("hidden", !editing);
+    editPalette.setAttribute("aria-pressed", String(editing));
+    void autoResizeWindow();
+  });
+
+  paletteName.addEventListener("input", () => {
+    const palette = activePalette();
+    if (!palette) return;
+    palette.name = paletteName.value;
+    writePalettes(palettes);
+    fillPaletteSelect();
+  });
+
+  addSwatch.addEventListener("click", () => {
+    const palette = activePalette();
+    if (!palette || palette.swatches.length >= MAX_SWATCHES) return;
+    palette.swatches.push({ name: "", hex: "#808080" });
+    writePalettes(palettes);
+    renderPaletteEditor();
+    refreshColorChoices();
+  });
+
+  deletePalette.addEventListener("click", () => {
+    // Colors already in use are plain hex values, so the screen doesn't change
+    palettes = palettes.filter((p) => p.id !== activePaletteId);
+    writePalettes(palettes);
+    selectPalette(PCC_PALETTE_ID);
+  });
+
+  // Scenes: recall goes through the form + pushNow(), same as any manual edit
+  const scenes: Scene[] = readScenes();
+
+  const recallScene = (scene: Scene) => {
+    loadForm(scene.settings);
+    pushNow();
+    sendTracked({ type: "setMode", mode: scene.mode }).catch(console.error);
+    void autoResizeWindow();
+  };
+
+  const renderScenes = () => {
+    renderSceneList(sceneList, scenes, {
+      onRecall: recallScene,
+      onChange: () => {
+        writeScenes(scenes);
+        renderScenes();
+      },
+    });
+    saveScene.disabled = scenes.length >= MAX_SCENES;
+    void autoResizeWindow();
+  };
+  renderScenes();
+
+  const saveCurrentScene = () => {
+    if (scenes.length >= MAX_SCENES) return;
+    scenes.push({
+      id: newSceneId(),
+      name: sceneName.value.trim() || `Scene ${scenes.length + 1}`,
+      mode: shownReport()?.report.mode ?? "message",
+      settings: snapshotSettings(),
+    });
+    sceneName.value = "";
+    writeScenes(scenes);
+    renderScenes();
+  };
+
+  saveScene.addEventListener("click", saveCurrentScene);
+  sceneName.addEventListener("keydown", (e) => {
+    if (e.key === "Enter") saveCurrentScene();
+  });
+
+  // 1–9 recall scenes, unless the proctor is typing somewhere
+  document.addEventListener("keydown", (e) => {
+    if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+    if (!/^[1-9]$/.test(e.key)) return;
+    const scene = scenes[Number(e.key) - 1];
+    if (!scene) return;
+    e.preventDefault();
+    recallScene(scene);
+  });
+
+  // Backup & sharing: export the whole configuration, import with a preview first.
+  // The form holds the newest settings of whichever window it shows.
+  const formShows = (view: string) => view === (targetView === ALL_VIEWS ? MAIN_VIEW : targetView);
+  const viewSettings = (view: string) => (formShows(view) ? snapshotSettings() : readStoredSettings(view));
+
+  const currentSnapshot = (): ConfigSnapshot => ({
+    settings: viewSettings(MAIN_VIEW),
+    scenes: scenes.map((sc) => ({ ...sc })),
+    quickMessages: quickMessages.map((m) => ({ ...m })),
+    palettes: palettes.map((p) => ({ ...p, swatches: p.swatches.map((sw) => ({ ...sw })) })),
+    images: images.map((image) => ({ ...image })),
+    studentViews: readStudentViews().map((view) => ({ ...view, settings: viewSettings(view.label) })),
+    scheduledActions: scheduled.map((entry) => ({ ...entry })),
+    hotkeys: { ...hotkeys },
+    collapsed: readCollapsed(),
+  });
+
+  let pendingImport: ConfigImport | null = null;
+
+  const importStrategy = (): ImportStrategy =>
+    document.querySelector<HTMLInputElement>('input[name="importStrategy"]:checked')?.value === "replace"
+      ? "replace"
+      : "merge";
+
+  const showImportError = (message: string | null) => {
+    importError.textContent = message ?? "";
+    importError.toggleAttribute("hidden", message === null);
+    void autoResizeWindow();
+  };
+
+  const closeImport = () => {
+    pendingImport = null;
+    importFile.value = "";
+    importPreview.toggleAttribute("hidden", true);
+    void autoResizeWindow();
+  };
+
+  const renderImportPreview = () => {
+    if (!pendingImport) return;
+    const before = currentSnapshot();
+    const after = applyImport(before, pendingImport, importStrategy());
+    importChanges.replaceChildren(
+      ...describeImport(before, after, pendingImport.ignored).map((line) => {
+        const li = document.createElement("li");
+        li.textContent = line;
+        return li;
+      })
+    );
+    importPreview.toggleAttribute("hidden", false);
+    void autoResizeWindow();
+  };
+
+  exportConfig.addEventListener("click", () => {
+    const file = buildConfigFile(currentSnapshot());
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `attentionscreen-config-${file.exportedAt.slice(0, 10)}.json`;
+    a.click();
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+  });
+
+  importConfig.addEventListener("click", () => importFile.click());
+
+  importFile.addEventListener("change", async () => {
+    const file = importFile.files?.[0];
+    if (!file) return;
+    closeImport();
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      showImportError(`${file.name} isn't valid JSON.`);
+      return;
+    }
+
+    const parsed = parseConfigFile(raw, viewSettings(MAIN_VIEW));
+    if (!parsed.ok) {
+      showImportError(`Can't import ${file.name}: ${parsed.error}`);
+      return;
+    }
+    showImportError(null);
+    pendingImport = parsed.value;
+    renderImportPreview();
+  });
+
+  document.querySelectorAll<HTMLInputElement>('input[name="importStrategy"]').forEach((radio) => {
+    radio.addEventListener("change", renderImportPreview);
+  });
+
+  importCancel.addEventListener("click", closeImport);
+
+  importApply.addEventListener("click", () => {
+    if (!pendingImport) return;
+    const next = applyImport(currentSnapshot(), pendingImport, importStrategy());
+
+    // Images first: they're the one section that can overflow storage, and
+    // nothing else is touched when they do
+    try {
+      writeImages(next.images);
+    } catch {
+      showImportError("Not enough room to store the file's images; nothing was imported.");
+      return;
+    }
+    images = readImages();
+    imageError = null;
+    renderImageTrays();
+
+    // Then palettes so the form can offer the imported colors
+    palettes = next.palettes;
+    writePalettes(palettes);
+    fillPaletteSelect();
+    renderPaletteEditor();
+
+    // The main view's settings go through the form when it shows them, so they
+    // reach every window when it broadcasts; the extra views' are written after
+    if (formShows(MAIN_VIEW)) {
+      loadForm(next.settings);
+      pushNow();
+    } else {
+      writeStoredSettings(next.settings, MAIN_VIEW);
+      sendCommand({ type: "settings", settings: next.settings }, MAIN_VIEW).catch(console.error);
+    }
+
+    const kept = new Set(next.studentViews.map((view) => view.label));
+    const had = new Set(readStudentViews().map((view) => view.label));
+    for (const label of had) {
+      if (!kept.has(label)) forgetView(label);
+    }
+    writeStudentViews(next.studentViews.map(({ label, name }) => ({ label, name })));
+    for (const view of next.studentViews) {
+      writeStoredSettings(view.settings, view.label);
+      if (had.has(view.label)) {
+        sendCommand({ type: "settings", settings: view.settings }, view.label).catch(console.error);
+      } else {
+        openStudentView(view).catch(console.error);
+      }
+    }
+    if (targetView !== ALL_VIEWS && !formShows(MAIN_VIEW)) {
+      if (kept.has(targetView)) showStoredSettings();
+      else selectTarget(MAIN_VIEW);
+    }
+    // After the views, so the rows can offer the imported windows
+    scheduled.splice(0, scheduled.length, ...next.scheduledActions);
+    writeScheduledActions(scheduled);
+    renderViewTargets();
+
+    scenes.splice(0, scenes.length, ...next.scenes);
+    writeScenes(scenes);
+    renderScenes();
+
+    quickMessages.splice(0, quickMessages.length, ...next.quickMessages);
+    writeQuickMessages(quickMessages);
+    renderQuickLibrary();
+
+    // The main window registers them when it sees the change
+    hotkeys = next.hotkeys;
+    writeHotkeys(hotkeys);
+    renderHotkeys();
+
+    // Toggle through the headers so the cards animate and persist like a click
+    writeCollapsed(next.collapsed);
+    document.querySelectorAll<HTMLElement>(".collapsible-card").forEach((card) => {
+      const want = !!next.collapsed[card.dataset.section || "section"];
+      if (card.classList.contains("is-collapsed") !== want) {
+        card.querySelector<HTMLButtonElement>(".card-header")?.click();
+      }
+    });
+
+    closeImport();
+  });
+
+  // Timer controls -> main window
+  timerStart.addEventListener("click", () => {
+    pushNow();
+    sendTracked({ type: "timerStart" }).catch(console.error);
+  });
+
+  timerPause.addEventListener("click", () => {
+    sendTracked({ type: "timerPause" }).catch(console.error);
+  });
+
+  timerReset.addEventListener("click", () => {
+    pushNow();
+    sendTracked({ type: "timerReset" }).catch(console.error);
+  });
+
+  timerSkip.addEventListener("click", () => {
+    sendTracked({ type: "timerSkip" }).catch(console.error);
+  });
+
+  timerExtend.addEventListener("click", () => {
+    sendTracked({ type: "timerExtend", ms: 60_000 }).catch(console.error);
+  });
+
+  // Initial sync, once the Student View's ack can be heard
+  void stateReportsReady.then(() => pushNow());
+
+  initCollapsibles();
+
+
+   // After initial UI is fully built and values set
+   void autoResizeWindow();
+   setTimeout(() => void autoResizeWindow(), 50);
+   setTimeout(() => void autoResizeWindow(), 250);
+ 
+   // Resize on layout changes
    const wrap = document.querySelector(".settings-wrap");
    if (wrap) {
      const ro = new ResizeObserver(() => void autoResizeWindow());
@@ -416,34 +1741,177 @@ window.addEventListener("DOMContentLoaded", () => {
   const btnBlank = document.getElementById("btnBlank") as HTMLButtonElement;
   const btnFlash = document.getElementById("btnFlash") as HTMLButtonElement;
 
-  const pill = document.querySelector(".ops-pill");
-const status = document.getElementById("opsStatus");
-
-function setOpsState(state: "live" | "blank" | "flash") {
-  pill?.classList.remove("is-live", "is-blank", "is-flash");
-  pill?.classList.add(state === "live" ? "is-live" : state === "blank" ? "is-blank" : "is-flash");
-  if (status) status.textContent = state === "live" ? "Live" : state === "blank" ? "Blank" : "Flash";
-}
-
   btnShow.onclick = () => {
-    emit("attention:setMode", "message");
-    setOpsState("live")
+    sendTracked({ type: "setMode", mode: "message" }).catch(console.error);
   };
 
   btnBlank.onclick = () => {
-    emit("attention:setMode", "blank");
-    setOpsState("blank")
+    sendTracked({ type: "setMode", mode: "blank" }).catch(console.error);
   };
 
   btnFlash.onclick = () => {
-    emit("attention:flash");
-    setOpsState("flash");
-    btnFlash.disabled = true;
-    window.setTimeout(() => {
-      setOpsState("live") 
-      btnFlash.disabled = false;
-    }, 1500);
+    flashCommandId = nextCommandId();
+    syncFlashButton();
+    sendTracked({ type: "flash" }, flashCommandId).catch(console.error);
   };
+
+  // Scheduled actions: stored on every edit, the Student Views pick them up on their own
+  const scheduled: ScheduledAction[] = readScheduledActions();
+
+  const refreshScheduledNext = () => {
+    const next = nextAction(scheduled, Date.now());
+    scheduledNext.textContent = next ? describeNextAction(next.entry, next.at) : "Nothing scheduled";
+  };
+
+  const renderScheduled = () => {
+    renderScheduledList(scheduledList, scheduled, allViews(), {
+      onEdit: () => {
+        writeScheduledActions(scheduled);
+        refreshScheduledNext();
+      },
+      onRemove: (i) => {
+        scheduled.splice(i, 1);
+        writeScheduledActions(scheduled);
+        renderScheduled();
+      },
+    });
+    addScheduledAction.disabled = scheduled.length >= MAX_SCHEDULED_ACTIONS;
+    refreshScheduledNext();
+    void autoResizeWindow();
+  };
+  renderScheduled();
+
+  addScheduledAction.addEventListener("click", () => {
+    if (scheduled.length >= MAX_SCHEDULED_ACTIONS) return;
+    scheduled.push(newScheduledAction());
+    writeScheduledActions(scheduled);
+    renderScheduled();
+    scheduledList.querySelector<HTMLInputElement>(".phase-row:last-child input[type=time]")?.focus();
+  });
+
+  // Student View windows: which one the controls act on, plus adding and removing extras
+  const targetSelect = must<HTMLSelectElement>("targetView");
+  const openView = must<HTMLButtonElement>("openView");
+  const removeView = must<HTMLButtonElement>("removeView");
+  const newViewName = must<HTMLInputElement>("newViewName");
+  const addView = must<HTMLButtonElement>("addView");
+
+  const renderViewTargets = () => {
+    const views = allViews();
+    const gone = targetView === ALL_VIEWS ? views.length < 2 : !views.some((v) => v.label === targetView);
+    if (gone) targetView = MAIN_VIEW;
+
+    const options = views.map((v) => {
+      const opt = document.createElement("option");
+      opt.value = v.label;
+      opt.textContent = v.name;
+      return opt;
+    });
+    if (views.length > 1) {
+      const all = document.createElement("option");
+      all.value = ALL_VIEWS;
+      all.textContent = "All windows";
+      options.push(all);
+    }
+    targetSelect.replaceChildren(...options);
+    targetSelect.value = targetView;
+
+    openView.disabled = targetView === ALL_VIEWS;
+    removeView.disabled = targetView === ALL_VIEWS || targetView === MAIN_VIEW;
+    addView.disabled = views.length - 1 >= MAX_EXTRA_VIEWS;
+    // Scheduled action rows offer the same windows
+    renderScheduled();
+  };
+
+  const showStoredSettings = () => {
+    loadForm(readStoredSettings(targetView === ALL_VIEWS ? MAIN_VIEW : targetView));
+    lastSent = JSON.stringify(snapshotSettings());
+  };
+
+  // The form shows the chosen window's content; broadcasting starts from the main
+  // window's and only overwrites the others once something is edited
+  const selectTarget = (view: string) => {
+    if (pendingTimer !== null) {
+      window.clearTimeout(pendingTimer);
+      pendingTimer = null;
+      pushNow();
+    }
+    targetView = view;
+    showStoredSettings();
+    renderViewTargets();
+    refreshOpsView();
+    void autoResizeWindow();
+  };
+
+  targetSelect.addEventListener("change", () => selectTarget(targetSelect.value));
+
+  openView.addEventListener("click", () => {
+    const view = allViews().find((v) => v.label === targetView);
+    if (view) openStudentView(view).catch(console.error);
+  });
+
+  addView.addEventListener("click", () => {
+    const extras = readStudentViews();
+    if (extras.length >= MAX_EXTRA_VIEWS) return;
+    const view = {
+      label: newViewLabel(),
+      name: newViewName.value.trim() || `Student View ${extras.length + 2}`,
+    };
+    // Starts as a copy of what the form shows, then goes its own way
+    writeStoredSettings(snapshotSettings(), view.label);
+    writeStudentViews([...extras, view]);
+    newViewName.value = "";
+    openStudentView(view).catch(console.error);
+    selectTarget(view.label);
+  });
+
+  // Closes the window and drops everything stored for it but its list entry
+  function forgetView(label: string) {
+    closeStudentView(label)
+      .then(() => {
+        // After the close, so the window's last timer write doesn't bring its key back
+        removeStoredSettings(label);
+        removeTimerState(label);
+        removeScheduledRuns(label);
+      })
+      .catch(console.error);
+    reports.delete(label);
+    // A closed window won't ack what was still on its way to it
+    for (const [key, pending] of pendingAcks) {
+      if (key === ackKey(pending.id, label)) pendingAcks.delete(key);
+    }
+  }
+
+  removeView.addEventListener("click", () => {
+    const label = targetView;
+    if (label === MAIN_VIEW || label === ALL_VIEWS) return;
+    writeStudentViews(readStudentViews().filter((v) => v.label !== label));
+    forgetView(label);
+    selectTarget(MAIN_VIEW);
+  });
+
+  renderViewTargets();
+
+  // A scheduled action rewrote the shown window's settings: show what's on screen now
+  window.addEventListener("storage", (e) => {
+    if (e.key !== storedSettingsKey(targetView === ALL_VIEWS ? MAIN_VIEW : targetView)) return;
+    if (pendingTimer !== null) return; // an edit in flight wins, as it would on screen
+    showStoredSettings();
+  });
+
+  // Until the first report arrives, trust what the Student View last persisted
+  const savedTimer = readTimerState();
+  syncTimerButtons(!!savedTimer?.running && savedTimer.mode === stored.timerMode);
+
+  // Re-evaluate on a clock too, so silence turns into "Disconnected"
+  refreshOpsPill();
+  window.setInterval(() => {
+    refreshOpsPill();
+    refreshTimerStatus();
+    syncFlashButton();
+    refreshScheduledNext();
+  }, 500);
+
   //  btnShow.onclick = () => {
   //   emit("attention:setMode", "message");
   // };
@@ -458,6 +1926,782 @@ function setOpsState(state: "live" | "blank" | "flash") {
 });
 
 
+/* -----------------------------
+   Scene list
+------------------------------ */
+type SceneListHandlers = {
+  onRecall: (scene: Scene) => void;
+  // after the list was edited in place (reorder, rename, delete)
+  onChange: () => void;
+};
+
+function isTypingTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+function iconButton(text: string, label: string, onClick: () => void): HTMLButtonElement {
+  const btn = document.createElement("button");
+  btn.type = "button";
+  btn.className = "icon-btn";
+  btn.textContent = text;
+  btn.setAttribute("aria-label", label);
+  btn.title = label;
+  btn.addEventListener("click", onClick);
+  return btn;
+}
+
+function renderSceneList(list: HTMLElement, scenes: Scene[], handlers: SceneListHandlers) {
+  list.innerHTML = "";
+
+  if (scenes.length === 0) {
+    renderEmpty(list, "No scenes yet. Set up the screen, then save it here.");
+    return;
+  }
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= scenes.length) return;
+    const [scene] = scenes.splice(from, 1);
+    scenes.splice(to, 0, scene);
+    handlers.onChange();
+  };
+
+  scenes.forEach((scene, i) => {
+    const row = document.createElement("div");
+    row.className = "scene-row";
+
+    const recall = document.createElement("button");
+    recall.type = "button";
+    recall.className = "theme-btn scene-recall";
+    recall.title = `Recall "${scene.name}" (${scene.mode === "blank" ? "blank screen" : "message"})`;
+
+    const key = document.createElement("span");
+    key.className = "scene-key";
+    key.textContent = i < 9 ? String(i + 1) : "";
+
+    const name = document.createElement("span");
+    name.className = "scene-name";
+    name.textContent = scene.name;
+
+    recall.append(key, name);
+    recall.addEventListener("click", () => handlers.onRecall(scene));
+
+    const rename = iconButton("✎", `Rename ${scene.name}`, () => {
+      const input = document.createElement("input");
+      input.type = "text";
+      input.className = "theme-input";
+      input.value = scene.name;
+      row.replaceChild(input, recall);
+      input.focus();
+      input.select();
+
+      let done = false;
+      const finish = (save: boolean) => {
+        if (done) return;
+        done = true;
+        if (save && input.value.trim()) scene.name = input.value.trim();
+        handlers.onChange();
+      };
+      input.addEventListener("keydown", (e) => {
+        if (e.key === "Enter") finish(true);
+        if (e.key === "Escape") finish(false);
+      });
+      input.addEventListener("blur", () => finish(true));
+    });
+
+    row.append(
+      recall,
+      iconButton("↑", `Move ${scene.name} up`, () => move(i, i - 1)),
+      iconButton("↓", `Move ${scene.name} down`, () => move(i, i + 1)),
+      rename,
+      removeButton(`Delete ${scene.name}`, () => {
+        scenes.splice(i, 1);
+        handlers.onChange();
+      })
+    );
+    list.appendChild(row);
+  });
+}
+
+/* -----------------------------
+   Schedule phase, timer alert + palette swatch editors
+   Rows edit their item in place and call onEdit; add/remove re-render.
+------------------------------ */
+type ListEditorHandlers = {
+  onEdit: () => void;
+  onRemove: (index: number) => void;
+};
+
+function removeButton(label: string, onClick: () => void): HTMLButtonElement {
+  return iconButton("×", label, onClick);
+}
+
+function renderEmpty(list: HTMLElement, text: string) {
+  const empty = document.createElement("div");
+  empty.className = "phase-empty";
+  empty.textContent = text;
+  list.appendChild(empty);
+}
+
+function phaseInput(type: "text" | "number", value: string, placeholder: string): HTMLInputElement {
+  const input = document.createElement("input");
+  input.type = type;
+  input.value = value;
+  input.placeholder = placeholder;
+  if (type === "text") input.className = "theme-input";
+  return input;
+}
+
+function renderPhaseList(list: HTMLElement, phases: TimerPhase[], handlers: ListEditorHandlers) {
+  list.innerHTML = "";
+
+  if (phases.length === 0) {
+    renderEmpty(list, "No phases yet. Add reading, writing, upload…");
+    return;
+  }
+
+  phases.forEach((phase, i) => {
+    const row = document.createElement("div");
+    row.className = "phase-row";
+
+    const head = document.createElement("div");
+    head.className = "phase-row-head";
+
+    const name = phaseInput("text", phase.name, `Phase ${i + 1}`);
+    name.addEventListener("input", () => {
+      phase.name = name.value;
+      handlers.onEdit();
+    });
+
+    head.append(name, removeButton(`Remove phase ${i + 1}`, () => handlers.onRemove(i)));
+
+    const time = document.createElement("div");
+    time.className = "time-row";
+
+    const min = phaseInput("number", String(phase.minutes), "Min");
+    min.min = "0";
+    min.setAttribute("aria-label", "Minutes");
+    const sec = phaseInput("number", String(phase.seconds), "Sec");
+    sec.min = "0";
+    sec.max = "59";
+    sec.setAttribute("aria-label", "Seconds");
+
+    min.addEventListener("input", () => {
+      phase.minutes = clampInt(Number(min.value || 0), 0, 9999);
+      handlers.onEdit();
+    });
+    sec.addEventListener("input", () => {
+      phase.seconds = clampInt(Number(sec.value || 0), 0, 59);
+      handlers.onEdit();
+    });
+
+    time.append(min, sec);
+
+    const title = phaseInput("text", phase.titleText, "Title (optional)");
+    title.addEventListener("input", () => {
+      phase.titleText = title.value;
+      handlers.onEdit();
+    });
+
+    const subtitle = phaseInput("text", phase.subtitleText, "Subtitle (optional)");
+    subtitle.addEventListener("input", () => {
+      phase.subtitleText = subtitle.value;
+      handlers.onEdit();
+    });
+
+    row.append(head, time, title, subtitle);
+    list.appendChild(row);
+  });
+}
+
+// Flash / subtitle / background fields shared by alert rows and the end-of-time action
+function alertEffectFields(effect: TimerAlertEffect, onEdit: () => void): HTMLElement[] {
+  const flashLabel = document.createElement("label");
+  flashLabel.className = "check-label";
+  const flashBox = document.createElement("input");
+  flashBox.type = "checkbox";
+  flashBox.checked = effect.flash;
+  flashBox.addEventListener("change", () => {
+    effect.flash = flashBox.checked;
+    onEdit();
+  });
+  flashLabel.append(flashBox, "Flash");
+
+  const subtitle = phaseInput("text", effect.subtitleText, "Subtitle (optional)");
+  subtitle.addEventListener("input", () => {
+    effect.subtitleText = subtitle.value;
+    onEdit();
+  });
+
+  const bg = colorSelect(effect.bg, "Background", (value) => {
+    effect.bg = value;
+    onEdit();
+  });
+
+  return [flashLabel, subtitle, bg];
+}
+
+// Plain native select: rows are re-rendered, so they skip enhanceSelect()
+function colorSelect(value: string, label: string, onChange: (value: string) => void): HTMLSelectElement {
+  const select = document.createElement("select");
+  select.className = "row-select";
+  select.setAttribute("aria-label", label);
+  const keep = document.createElement("option");
+  keep.value = "";
+  keep.textContent = `Keep ${label.toLowerCase()}`;
+  select.appendChild(keep);
+  for (const color of withValue(activeColors(), value)) {
+    const opt = document.createElement("option");
+    opt.value = color;
+    opt.textContent = colorLabel(palettes, color);
+    select.appendChild(opt);
+  }
+  select.value = value;
+  select.addEventListener("change", () => onChange(select.value));
+  return select;
+}
+
+function renderSwatchList(list: HTMLElement, swatches: Swatch[], handlers: ListEditorHandlers) {
+  list.innerHTML = "";
+
+  if (swatches.length === 0) {
+    renderEmpty(list, "No colors yet. Add your brand colors…");
+    return;
+  }
+
+  swatches.forEach((swatch, i) => {
+    const row = document.createElement("div");
+    row.className = "swatch-row";
+
+    const color = document.createElement("input");
+    color.type = "color";
+    color.value = swatch.hex;
+    color.setAttribute("aria-label", `Color ${i + 1}`);
+    color.addEventListener("change", () => {
+      swatch.hex = color.value.toLowerCase();
+      handlers.onEdit();
+    });
+
+    const name = phaseInput("text", swatch.name, swatch.hex.toUpperCase());
+    name.addEventListener("change", () => {
+      swatch.name = name.value;
+      handlers.onEdit();
+    });
+
+    row.append(color, name, removeButton(`Remove color ${i + 1}`, () => handlers.onRemove(i)));
+    list.appendChild(row);
+  });
+}
+
+function renderAlertList(list: HTMLElement, alerts: TimerAlert[], handlers: ListEditorHandlers) {
+  list.innerHTML = "";
+
+  if (alerts.length === 0) {
+    renderEmpty(list, "No alerts. Add one for 15, 5 or 1 minute left…");
+    return;
+  }
+
+  alerts.forEach((alert, i) => {
+    const row = document.createElement("div");
+    row.className = "phase-row";
+
+    const head = document.createElement("div");
+    head.className = "phase-row-head";
+
+    const at = document.createElement("label");
+    at.className = "alert-minutes";
+    const minutes = phaseInput("number", String(alert.minutes), "Min");
+    minutes.min = "1";
+    minutes.addEventListener("input", () => {
+      alert.minutes = clampInt(Number(minutes.value || 1), 1, 9999);
+      handlers.onEdit();
+    });
+    at.append("At", minutes, "min left");
+
+    head.append(at, removeButton(`Remove alert ${i + 1}`, () => handlers.onRemove(i)));
+
+    row.append(head, ...alertEffectFields(alert, handlers.onEdit));
+    list.appendChild(row);
+  });
+}
+
+/* -----------------------------
+   Ticker announcements
+   Same in-place editing as the lists above; pausing keeps an item but hides it.
+------------------------------ */
+type TickerListHandlers = ListEditorHandlers & {
+  onTogglePause: () => void;
+};
+
+function renderTickerList(list: HTMLElement, items: TickerItem[], handlers: TickerListHandlers) {
+  list.innerHTML = "";
+
+  if (items.length === 0) {
+    renderEmpty(list, "No announcements. Add one like “No phones” or “Submit by 3:00”.");
+    return;
+  }
+
+  items.forEach((item, i) => {
+    const row = document.createElement("div");
+    row.className = "phase-row ticker-row";
+    row.classList.toggle("is-paused", item.paused);
+
+    const head = document.createElement("div");
+    head.className = "phase-row-head";
+
+    const text = phaseInput("text", item.text, "Announcement");
+    text.maxLength = MAX_TICKER_TEXT;
+    text.addEventListener("input", () => {
+      item.text = text.value;
+      handlers.onEdit();
+    });
+
+    const pause = iconButton(item.paused ? "▶" : "⏸", item.paused ? `Resume ${item.text}` : `Pause ${item.text}`, () => {
+      item.paused = !item.paused;
+      handlers.onTogglePause();
+    });
+    pause.setAttribute("aria-pressed", String(item.paused));
+
+    head.append(text, pause, removeButton(`Remove ${item.text || "announcement"}`, () => handlers.onRemove(i)));
+    row.appendChild(head);
+    list.appendChild(row);
+  });
+}
+
+/* -----------------------------
+   Scheduled actions
+   Same in-place editing; the time and window sit in the row head, what
+   happens at that time below.
+------------------------------ */
+const SCHEDULED_MODE_LABELS: Record<ScheduledAction["mode"], string> = {
+  keep: "Keep screen",
+  message: "Show message",
+  blank: "Blank screen",
+};
+
+function describeScheduledAction(entry: ScheduledAction): string {
+  const parts = [plainText(entry.titleText), plainText(entry.subtitleText)].filter(Boolean);
+  if (entry.mode !== "keep") parts.push(SCHEDULED_MODE_LABELS[entry.mode]);
+  if (entry.flash) parts.push("Flash");
+  return parts.join(" · ") || "Nothing";
+}
+
+function describeNextAction(entry: ScheduledAction, at: number): string {
+  const minutes = Math.ceil((at - Date.now()) / 60_000);
+  const wait = minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+  return `Next up at ${entry.time}: ${describeScheduledAction(entry)} (in ${wait})`;
+}
+
+function renderScheduledList(
+  list: HTMLElement,
+  entries: ScheduledAction[],
+  views: StudentView[],
+  handlers: ListEditorHandlers
+) {
+  list.innerHTML = "";
+
+  if (entries.length === 0) {
+    renderEmpty(list, "No scheduled actions. Add one like “13:45: 15 MINUTES LEFT + Flash”.");
+    return;
+  }
+
+  entries.forEach((entry, i) => {
+    const row = document.createElement("div");
+    row.className = "phase-row scheduled-row";
+    row.classList.toggle("is-disabled", !entry.enabled);
+
+    const head = document.createElement("div");
+    head.className = "phase-row-head scheduled-row-head";
+
+    const enabled = document.createElement("input");
+    enabled.type = "checkbox";
+    enabled.checked = entry.enabled;
+    enabled.setAttribute("aria-label", "Enabled");
+    enabled.title = "Enabled";
+    enabled.addEventListener("change", () => {
+      entry.enabled = enabled.checked;
+      row.classList.toggle("is-disabled", !entry.enabled);
+      handlers.onEdit();
+    });
+
+    const time = document.createElement("input");
+    time.type = "time";
+    time.value = entry.time;
+    time.setAttribute("aria-label", "Time");
+    time.addEventListener("change", () => {
+      entry.time = time.value;
+      handlers.onEdit();
+    });
+
+    const target = document.createElement("select");
+    target.className = "row-select";
+    target.setAttribute("aria-label", "Window");
+    const targets = [...views.map((v) => [v.label, v.name]), [ALL_VIEWS, "All windows"]];
+    // A window removed since keeps its entry, shown as such, until the proctor picks another
+    if (!targets.some(([label]) => label === entry.target)) targets.push([entry.target, "Removed window"]);
+    for (const [label, name] of targets) {
+      const opt = document.createElement("option");
+      opt.value = label;
+      opt.textContent = name;
+      target.appendChild(opt);
+    }
+    target.value = entry.target;
+    target.addEventListener("change", () => {
+      entry.target = target.value;
+      handlers.onEdit();
+    });
+
+    const remove = removeButton(`Remove the ${entry.time || "new"} action`, () => handlers.onRemove(i));
+    head.append(enabled, time, target, remove);
+
+    const title = phaseInput("text", entry.titleText, "Title (optional)");
+    title.addEventListener("input", () => {
+      entry.titleText = title.value;
+      handlers.onEdit();
+    });
+
+    const subtitle = phaseInput("text", entry.subtitleText, "Subtitle (optional)");
+    subtitle.addEventListener("input", () => {
+      entry.subtitleText = subtitle.value;
+      handlers.onEdit();
+    });
+
+    const effect = document.createElement("div");
+    effect.className = "scheduled-row-effect";
+
+    const mode = document.createElement("select");
+    mode.className = "row-select";
+    mode.setAttribute("aria-label", "Screen");
+    for (const [value, label] of Object.entries(SCHEDULED_MODE_LABELS)) {
+      const opt = document.createElement("option");
+      opt.value = value;
+      opt.textContent = label;
+      mode.appendChild(opt);
+    }
+    mode.value = entry.mode;
+    mode.addEventListener("change", () => {
+      if (!isScheduledMode(mode.value)) return;
+      entry.mode = mode.value;
+      handlers.onEdit();
+    });
+
+    const flashLabel = document.createElement("label");
+    flashLabel.className = "check-label";
+    const flashBox = document.createElement("input");
+    flashBox.type = "checkbox";
+    flashBox.checked = entry.flash;
+    flashBox.addEventListener("change", () => {
+      entry.flash = flashBox.checked;
+      handlers.onEdit();
+    });
+    flashLabel.append(flashBox, "Flash");
+
+    effect.append(mode, flashLabel);
+    row.append(head, title, subtitle, effect);
+    list.appendChild(row);
+  });
+}
+
+/* -----------------------------
+   Hotkeys
+   Click a shortcut to record: the next key combination replaces it, Escape
+   cancels and Backspace clears.
+------------------------------ */
+type HotkeyListHandlers = {
+  onRecording: (recording: boolean) => void;
+  onRecord: (id: string, accelerator: string) => void;
+  onClear: (id: string) => void;
+};
+
+function renderHotkeyList(
+  list: HTMLElement,
+  rows: { id: string; label: string }[],
+  map: HotkeyMap,
+  problems: Map<string, string>,
+  handlers: HotkeyListHandlers
+) {
+  list.innerHTML = "";
+
+  for (const { id, label } of rows) {
+    const row = document.createElement("div");
+    row.className = "hotkey-row";
+
+    const name = document.createElement("span");
+    name.className = "hotkey-name";
+    name.textContent = label;
+    name.title = label;
+
+    const key = document.createElement("button");
+    key.type = "button";
+    key.className = "theme-btn hotkey-key";
+    key.textContent = map[id] ? formatAccelerator(map[id]) : "None";
+    key.setAttribute("aria-label", `Hotkey for ${label}`);
+
+    let recording = false;
+    const stop = () => {
+      if (!recording) return false;
+      recording = false;
+      key.classList.remove("is-recording");
+      return true;
+    };
+
+    key.addEventListener("click", () => {
+      if (recording) return;
+      recording = true;
+      key.classList.add("is-recording");
+      key.textContent = "Press keys…";
+      handlers.onRecording(true);
+    });
+    key.addEventListener("keydown", (e) => {
+      if (!recording) return;
+      e.preventDefault();
+      if (e.key === "Escape") {
+        if (stop()) handlers.onRecording(false);
+      } else if (e.key === "Backspace" || e.key === "Delete") {
+        if (stop()) handlers.onClear(id);
+      } else {
+        const accelerator = acceleratorFromEvent(e);
+        if (accelerator && stop()) handlers.onRecord(id, accelerator);
+      }
+    });
+    key.addEventListener("blur", () => {
+      if (stop()) handlers.onRecording(false);
+    });
+
+    const clear = removeButton(`Clear the ${label} hotkey`, () => handlers.onClear(id));
+    clear.disabled = !map[id];
+
+    row.append(name, key, clear);
+
+    const problem = problems.get(id);
+    if (problem) {
+      const err = document.createElement("div");
+      err.className = "backup-error";
+      err.textContent = problem;
+      row.appendChild(err);
+    }
+    list.appendChild(row);
+  }
+}
+
+/* -----------------------------
+   Quick message library
+   The grid is rebuilt from the library; the editor edits entries in place.
+------------------------------ */
+type QuickEditorHandlers = ListEditorHandlers & {
+  onMove: (from: number, to: number) => void;
+};
+
+function renderQuickGrid(
+  container: HTMLElement,
+  messages: QuickMessage[],
+  onPick: (message: QuickMessage) => void
+) {
+  container.innerHTML = "";
+
+  if (messages.length === 0) {
+    renderEmpty(container, "No quick messages. Use ✎ to add some.");
+    return;
+  }
+
+  const groups = groupByCategory(messages);
+  for (const [category, items] of groups) {
+    // A single group doesn't need a heading
+    if (groups.length > 1) {
+      const heading = document.createElement("div");
+      heading.className = "quick-category";
+      heading.textContent = category;
+      container.appendChild(heading);
+    }
+
+    const grid = document.createElement("div");
+    grid.className = "quick-grid";
+    for (const message of items) {
+      const btn = document.createElement("button");
+      btn.type = "button";
+      btn.className = "quick-btn";
+      btn.dataset.id = message.id;
+      btn.textContent = message.label || plainText(message.subtitleText) || "Untitled";
+      btn.title = plainText(message.subtitleText);
+      btn.addEventListener("mousedown", (e) => {
+        // Prevent focus flicker on macOS WebKit (the “glitch”)
+        e.preventDefault();
+      });
+      btn.addEventListener("click", () => onPick(message));
+      grid.appendChild(btn);
+    }
+    container.appendChild(grid);
+  }
+}
+
+function renderQuickEditor(list: HTMLElement, messages: QuickMessage[], handlers: QuickEditorHandlers) {
+  list.innerHTML = "";
+
+  if (messages.length === 0) {
+    renderEmpty(list, "The library is empty. Add a message below.");
+    return;
+  }
+
+  messages.forEach((message, i) => {
+    const row = document.createElement("div");
+    row.className = "phase-row";
+
+    const head = document.createElement("div");
+    head.className = "phase-row-head";
+
+    const label = phaseInput("text", message.label, "Button label");
+    label.addEventListener("input", () => {
+      message.label = label.value;
+      handlers.onEdit();
+    });
+
+    head.append(
+      label,
+      iconButton("↑", `Move ${message.label} up`, () => handlers.onMove(i, i - 1)),
+      iconButton("↓", `Move ${message.label} down`, () => handlers.onMove(i, i + 1)),
+      removeButton(`Remove ${message.label}`, () => handlers.onRemove(i))
+    );
+
+    const category = phaseInput("text", message.category, "Category");
+    category.addEventListener("input", () => {
+      message.category = category.value;
+      handlers.onEdit();
+    });
+
+    const subtitle = phaseInput("text", message.subtitleText, "Subtitle");
+    subtitle.addEventListener("input", () => {
+      message.subtitleText = subtitle.value;
+      handlers.onEdit();
+    });
+
+    const title = phaseInput("text", message.titleText, "Title (optional)");
+    title.addEventListener("input", () => {
+      message.titleText = title.value;
+      handlers.onEdit();
+    });
+
+    const qr = phaseInput("text", message.qrText, "QR code link (optional)");
+    qr.maxLength = MAX_QR_TEXT;
+    qr.addEventListener("input", () => {
+      message.qrText = qr.value;
+      handlers.onEdit();
+    });
+
+    const colors = document.createElement("div");
+    colors.className = "quick-colors";
+    colors.append(
+      colorSelect(message.bg, "Background", (value) => {
+        message.bg = value;
+        handlers.onEdit();
+      }),
+      colorSelect(message.text, "Title color", (value) => {
+        message.text = value;
+        handlers.onEdit();
+      }),
+      colorSelect(message.subtitleColor, "Subtitle color", (value) => {
+        message.subtitleColor = value;
+        handlers.onEdit();
+      })
+    );
+
+    row.append(head, category, subtitle, title, qr, colors);
+    list.appendChild(row);
+  });
+}
+
+/* -----------------------------
+   Rich text editor (title, subtitle)
+   Toolbar edits go through an "input" event, so they push like typing does.
+------------------------------ */
+type ImageTrayHandlers = {
+  onInsert: (image: StoredImage) => void;
+  onRemove: (index: number) => void;
+  onAdd: () => void;
+};
+
+function commitRichEdit(input: HTMLTextAreaElement, value: string, selStart: number, selEnd: number) {
+  input.value = value;
+  input.focus();
+  input.setSelectionRange(selStart, selEnd);
+  input.dispatchEvent(new Event("input", { bubbles: true }));
+}
+
+function insertAtCursor(input: HTMLTextAreaElement, token: string) {
+  const { selectionStart: start, selectionEnd: end, value } = input;
+  commitRichEdit(input, value.slice(0, start) + token + value.slice(end), start + token.length, start + token.length);
+}
+
+// Wraps the selection (or a placeholder word, selected for typing over) in a marker pair
+function wrapSelection(input: HTMLTextAreaElement, marker: string) {
+  const { selectionStart: start, selectionEnd: end, value } = input;
+  const inner = value.slice(start, end) || "text";
+  const at = start + marker.length;
+  commitRichEdit(input, value.slice(0, start) + marker + inner + marker + value.slice(end), at, at + inner.length);
+}
+
+function renderRichToolbar(toolbar: HTMLElement, input: HTMLTextAreaElement, onToggleImages: () => void) {
+  const bold = iconButton("B", "Bold", () => wrapSelection(input, "**"));
+  bold.classList.add("rich-tool--bold");
+  const mark = iconButton("H", "Highlight", () => wrapSelection(input, "=="));
+  mark.classList.add("rich-tool--mark");
+
+  const icons = (Object.keys(ICON_LABELS) as IconName[]).map((name) => {
+    const btn = iconButton("", `Insert ${ICON_LABELS[name].toLowerCase()} icon`, () =>
+      insertAtCursor(input, iconToken(name))
+    );
+    btn.appendChild(iconElement(name));
+    return btn;
+  });
+
+  const image = iconButton("🖼", "Images", onToggleImages);
+  toolbar.replaceChildren(bold, mark, ...icons, image);
+
+  // Keep the textarea's selection when a toolbar button is clicked
+  toolbar.querySelectorAll("button").forEach((btn) => btn.addEventListener("mousedown", (e) => e.preventDefault()));
+}
+
+function renderImageTray(tray: HTMLElement, images: StoredImage[], error: string | null, handlers: ImageTrayHandlers) {
+  tray.innerHTML = "";
+
+  const list = document.createElement("div");
+  list.className = "image-tray-list";
+  if (images.length === 0) renderEmpty(list, "No images yet. Pictures stay on this computer.");
+
+  images.forEach((image, i) => {
+    const item = document.createElement("div");
+    item.className = "image-tray-item";
+
+    const pick = document.createElement("button");
+    pick.type = "button";
+    pick.className = "image-tray-pick";
+    pick.title = `Insert ${image.name}`;
+    const thumb = document.createElement("img");
+    thumb.src = image.dataUrl;
+    thumb.alt = image.name;
+    pick.appendChild(thumb);
+    pick.addEventListener("click", () => handlers.onInsert(image));
+
+    item.append(pick, removeButton(`Remove ${image.name}`, () => handlers.onRemove(i)));
+    list.appendChild(item);
+  });
+
+  const add = document.createElement("button");
+  add.type = "button";
+  add.className = "theme-btn";
+  add.textContent = "Add image…";
+  add.disabled = images.length >= MAX_IMAGES;
+  add.addEventListener("click", handlers.onAdd);
+
+  tray.append(list, add);
+
+  if (error) {
+    const err = document.createElement("div");
+    err.className = "backup-error";
+    err.textContent = error;
+    tray.appendChild(err);
+  }
+}
+
 function initCollapsibles() {
   document.querySelectorAll<HTMLElement>(".collapsible-card").forEach((card) => {
     const key = card.dataset.section || "section";
@@ -536,9 +2780,20 @@ function enhanceSelect(select: HTMLSelectElement) {
   portal.style.display = "none";
   portal.setAttribute("role", "listbox");
 
+  // Label text plus the option's contrast badge, if it has one
+  function fillOptionContent(el: HTMLElement, o: HTMLOptionElement) {
+    el.textContent = o.textContent ?? "";
+    if (!o.dataset.badge) return;
+    const badge = document.createElement("span");
+    badge.className = "cselect-badge";
+    badge.textContent = o.dataset.badge;
+    el.appendChild(badge);
+  }
+
   function renderLabel() {
     const opt = select.selectedOptions[0];
-    btn.textContent = opt ? (opt.textContent ?? "") : "";
+    if (opt) fillOptionContent(btn, opt);
+    else btn.textContent = "";
   }
 
   function rebuildOptions() {
@@ -548,7 +2803,7 @@ function enhanceSelect(select: HTMLSelectElement) {
       item.type = "button";
       item.className = "cselect-option";
       item.setAttribute("role", "option");
-      item.textContent = o.textContent ?? "";
+      fillOptionContent(item, o);
       item.dataset.value = o.value;
       item.setAttribute("aria-selected", select.value === o.value ? "true" : "false");
 
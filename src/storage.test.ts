@@ -0,0 +1,112 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_SETTINGS,
+  STORAGE_SCHEMA,
+  defaultSettings,
+  migrateStorage,
+  readStoredSettings,
+  repairSettings,
+  writeStoredSettings,
+} from "./storage";
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("repairSettings", () => {
+  it("fills everything missing from the defaults", () => {
+    expect(repairSettings({})).toEqual({ settings: DEFAULT_SETTINGS, repaired: [] });
+    expect(repairSettings(null)).toEqual({ settings: DEFAULT_SETTINGS, repaired: [] });
+  });
+
+  it("falls back key by key", () => {
+    const { settings, repaired } = repairSettings({
+      bg: "not-a-color",
+      titleText: "QUIET",
+      timerMin: Number("ten"),
+      timerSec: 30,
+    });
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, titleText: "QUIET", timerSec: 30 });
+    expect(repaired).toEqual(["bg", "timerMin"]);
+  });
+
+  it("keeps the valid entries of a list", () => {
+    const phase = { name: "Reading", minutes: 10, seconds: 0, titleText: "", subtitleText: "" };
+    const { settings, repaired } = repairSettings({ timerPhases: [phase, { name: "Broken" }, phase] });
+    expect(settings.timerPhases).toEqual([phase, phase]);
+    expect(repaired).toEqual([]);
+  });
+
+  it("hands out copies of the defaults", () => {
+    const first = defaultSettings();
+    first.timerAlerts.push({ minutes: 1, flash: true, subtitleText: "", bg: "" });
+    expect(defaultSettings().timerAlerts).toEqual([]);
+    expect(DEFAULT_SETTINGS.timerAlerts).toEqual([]);
+  });
+});
+
+describe("migrateStorage", () => {
+  it("moves the old per-field keys into one document", () => {
+    localStorage.setItem("bg", "navy");
+    localStorage.setItem("timerMin", "12");
+    localStorage.setItem("flashOnPhaseChange", "1");
+    localStorage.setItem("timerAlerts", JSON.stringify([{ minutes: 2, flash: true, subtitleText: "", bg: "" }]));
+
+    migrateStorage();
+
+    expect(localStorage.getItem("schemaVersion")).toBe(String(STORAGE_SCHEMA));
+    expect(localStorage.getItem("bg")).toBeNull();
+    expect(localStorage.getItem("timerMin")).toBeNull();
+    const settings = readStoredSettings();
+    expect(settings.bg).toBe("navy");
+    expect(settings.timerMin).toBe(12);
+    expect(settings.flashOnPhaseChange).toBe(true);
+    expect(settings.timerAlerts).toEqual([{ minutes: 2, flash: true, subtitleText: "", bg: "" }]);
+  });
+
+  it("runs once", () => {
+    migrateStorage();
+    writeStoredSettings({ ...defaultSettings(), titleText: "KEPT" });
+    localStorage.setItem("titleText", "LEGACY");
+    migrateStorage();
+    expect(readStoredSettings().titleText).toBe("KEPT");
+  });
+
+  it("leaves a newer schema alone", () => {
+    localStorage.setItem("schemaVersion", String(STORAGE_SCHEMA + 1));
+    localStorage.setItem("bg", "navy");
+    migrateStorage();
+    expect(localStorage.getItem("bg")).toBe("navy");
+    expect(localStorage.getItem("schemaVersion")).toBe(String(STORAGE_SCHEMA + 1));
+  });
+});
+
+describe("readStoredSettings", () => {
+  it("writes back what it had to repair", () => {
+    migrateStorage();
+    localStorage.setItem("settings", JSON.stringify({ ...DEFAULT_SETTINGS, timerSec: 99 }));
+    expect(readStoredSettings().timerSec).toBe(DEFAULT_SETTINGS.timerSec);
+    expect(JSON.parse(localStorage.getItem("settings") ?? "{}").timerSec).toBe(DEFAULT_SETTINGS.timerSec);
+  });
+
+  it("keeps each Student View's settings apart", () => {
+    migrateStorage();
+    writeStoredSettings({ ...defaultSettings(), titleText: "MAIN" });
+    writeStoredSettings({ ...defaultSettings(), titleText: "HALL" }, "student-hall");
+    expect(readStoredSettings().titleText).toBe("MAIN");
+    expect(readStoredSettings("student-hall").titleText).toBe("HALL");
+    expect(readStoredSettings("student-lab").titleText).toBe(DEFAULT_SETTINGS.titleText);
+  });
+
+  it("starts over from unreadable JSON", () => {
+    migrateStorage();
+    localStorage.setItem("settings", "{not json");
+    expect(readStoredSettings()).toEqual(DEFAULT_SETTINGS);
+  });
+});
@@ -0,0 +1,212 @@
+// src/storage.ts
+// The one place settings are read from and written to localStorage.
+// Defaults are defined once here, reads repair bad values key by key, and
+// migrations bring older installs up to STORAGE_SCHEMA before anything is read.
+
+import { DEFAULT_CONTRAST_LEVEL, isContrastLevel, type ContrastLevel } from "./contrast";
+import {
+  MAX_ALERTS,
+  MAX_PHASES,
+  MAX_TICKER_ITEMS,
+  isRecord,
+  validateAlert,
+  validatePhase,
+  validateTickerItem,
+  validateSettings,
+  type AppSettings,
+} from "./protocol";
+import { MAIN_VIEW, viewKey } from "./studentViews";
+
+export const STORAGE_SCHEMA = 1;
+
+const SCHEMA_KEY = "schemaVersion";
+const SETTINGS_KEY = "settings";
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  bg: "turquoise",
+  titleText: "ATTENTION",
+  text: "navy",
+  subtitleText: "CHECK YOUR ZOOM CHAT",
+  subtitleColor: "white",
+  timerMode: "off",
+  timerMin: 5,
+  timerSec: 0,
+  timerPhases: [],
+  flashOnPhaseChange: false,
+  timerDeadline: "",
+  timerUrgentMin: 5,
+  timerAlerts: [],
+  timerEndAction: { flash: false, subtitleText: "", bg: "" },
+  displayProfile: "standard",
+  // 3 × 600 ms: the old fixed 1.8 s invert flash, at under 2 flashes per second
+  flashPattern: "invert",
+  flashCycleMs: 600,
+  flashRepeats: 3,
+  qrText: "",
+  tickerOn: false,
+  tickerSpeed: 100,
+  tickerItems: [],
+};
+
+// A fresh copy, so callers can't edit the shared defaults through nested lists
+export function defaultSettings(): AppSettings {
+  return structuredClone(DEFAULT_SETTINGS);
+}
+
+/* -----------------------------
+   Migrations
+   MIGRATIONS[n] upgrades schema n to n + 1. Installs from before
+   versioning count as schema 0. Append new steps; never edit old ones.
+------------------------------ */
+
+// Settings as loose per-field keys, strings throughout
+const LEGACY_KEYS = [
+  "bg",
+  "titleText",
+  "text",
+  "subtitleText",
+  "subtitleColor",
+  "timerMode",
+  "timerMin",
+  "timerSec",
+  "timerPhases",
+  "flashOnPhaseChange",
+  "timerDeadline",
+  "timerUrgentMin",
+  "timerAlerts",
+  "timerEndAction",
+] as const;
+
+function parseJsonOr(json: string | null, fallback: unknown): unknown {
+  if (json === null) return fallback;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return fallback;
+  }
+}
+
+// How each legacy string decodes; anything not listed was stored as-is
+const LEGACY_DECODERS: Partial<Record<(typeof LEGACY_KEYS)[number], (value: string) => unknown>> = {
+  timerMin: Number,
+  timerSec: Number,
+  timerUrgentMin: Number,
+  flashOnPhaseChange: (v) => v === "1",
+  timerPhases: (v) => parseJsonOr(v, null),
+  timerAlerts: (v) => parseJsonOr(v, null),
+  timerEndAction: (v) => parseJsonOr(v, null),
+};
+
+// Missing keys are left out; readStoredSettings() fills and repairs the rest
+function readLegacySettings(): Record<string, unknown> {
+  const legacy: Record<string, unknown> = {};
+  for (const key of LEGACY_KEYS) {
+    const value = localStorage.getItem(key);
+    if (value === null) continue;
+    legacy[key] = LEGACY_DECODERS[key]?.(value) ?? value;
+  }
+  return legacy;
+}
+
+const MIGRATIONS: Record<number, () => void> = {
+  // 0 -> 1: one JSON document instead of a key per field, so a write is atomic
+  // and a window never reads half of the other window's update
+  0: () => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(readLegacySettings()));
+    for (const key of LEGACY_KEYS) localStorage.removeItem(key);
+  },
+};
+
+function storedSchema(): number {
+  const n = Number(localStorage.getItem(SCHEMA_KEY) ?? "0");
+  return Number.isInteger(n) && n >= 0 ? n : 0;
+}
+
+// Safe to call from every window on every read: it's a no-op once current
+export function migrateStorage() {
+  let version = storedSchema();
+  if (version > STORAGE_SCHEMA) {
+    console.warn(`Storage schema ${version} is newer than this build (${STORAGE_SCHEMA}); reading it as-is`);
+    return;
+  }
+  while (version < STORAGE_SCHEMA) {
+    MIGRATIONS[version]();
+    version += 1;
+    localStorage.setItem(SCHEMA_KEY, String(version));
+  }
+}
+
+/* -----------------------------
+   Settings
+------------------------------ */
+
+// Keep the valid entries of a stored list rather than dropping the whole list
+function repairList(raw: unknown, max: number, validateItem: (item: unknown, index: number) => { ok: boolean }) {
+  if (!Array.isArray(raw)) return raw;
+  return raw.slice(0, max).filter((item, i) => validateItem(item, i).ok);
+}
+
+// Each key is checked against the defaults for everything else, so one bad
+// value falls back on its own instead of resetting the whole document
+export function repairSettings(raw: unknown): { settings: AppSettings; repaired: string[] } {
+  const source: Record<string, unknown> = isRecord(raw) ? { ...raw } : {};
+  if ("timerPhases" in source) source.timerPhases = repairList(source.timerPhases, MAX_PHASES, validatePhase);
+  if ("timerAlerts" in source) source.timerAlerts = repairList(source.timerAlerts, MAX_ALERTS, validateAlert);
+  if ("tickerItems" in source) {
+    source.tickerItems = repairList(source.tickerItems, MAX_TICKER_ITEMS, validateTickerItem);
+  }
+
+  const settings = defaultSettings();
+  const repaired: string[] = [];
+  for (const key of Object.keys(DEFAULT_SETTINGS) as (keyof AppSettings)[]) {
+    if (!(key in source)) continue;
+    const checked = validateSettings({ ...DEFAULT_SETTINGS, [key]: source[key] });
+    if (checked.ok) {
+      Object.assign(settings, { [key]: checked.value[key] });
+    } else {
+      repaired.push(key);
+    }
+  }
+  return { settings, repaired };
+}
+
+// Each Student View window has its own settings, see viewKey(). A window with
+// nothing stored yet starts from the defaults.
+export function readStoredSettings(view = MAIN_VIEW): AppSettings {
+  migrateStorage();
+  const raw = parseJsonOr(localStorage.getItem(viewKey(SETTINGS_KEY, view)), {});
+  const { settings, repaired } = repairSettings(raw);
+  if (repaired.length) {
+    console.warn(`Stored settings for ${view} repaired, back to defaults: ${repaired.join(", ")}`);
+    writeStoredSettings(settings, view);
+  }
+  return settings;
+}
+
+export function writeStoredSettings(s: AppSettings, view = MAIN_VIEW) {
+  localStorage.setItem(viewKey(SETTINGS_KEY, view), JSON.stringify(s));
+}
+
+export function removeStoredSettings(view: string) {
+  localStorage.removeItem(viewKey(SETTINGS_KEY, view));
+}
+
+// For matching "storage" events: another window rewrote this view's settings
+export function storedSettingsKey(view = MAIN_VIEW): string {
+  return viewKey(SETTINGS_KEY, view);
+}
+
+/* -----------------------------
+   Settings window preferences
+   Only the control panel reads these; they never reach the Student View.
+------------------------------ */
+const CONTRAST_LEVEL_KEY = "ui:contrastLevel";
+
+export function readContrastLevel(): ContrastLevel {
+  const stored = localStorage.getItem(CONTRAST_LEVEL_KEY);
+  return isContrastLevel(stored) ? stored : DEFAULT_CONTRAST_LEVEL;
+}
+
+export function writeContrastLevel(level: ContrastLevel) {
+  localStorage.setItem(CONTRAST_LEVEL_KEY, level);
+}
@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from "vitest";
+import { readScheduledRuns, removeScheduledRuns, writeScheduledRuns } from "./scheduledActions";
+import {
+  defaultSettings,
+  migrateStorage,
+  readStoredSettings,
+  removeStoredSettings,
+  writeStoredSettings,
+} from "./storage";
+import {
+  MAIN_VIEW,
+  MAX_EXTRA_VIEWS,
+  allViews,
+  newViewLabel,
+  readStudentViews,
+  validateStudentView,
+  viewKey,
+  writeStudentViews,
+  type StudentView,
+} from "./studentViews";
+import { readTimerState, removeTimerState, writeTimerState, type PersistedTimer } from "./timerState";
+
+const view = (label: string, name = label): StudentView => ({ label, name });
+
+beforeEach(() => localStorage.clear());
+
+describe("labels", () => {
+  it("makes a new valid label every time", () => {
+    const labels = new Set(Array.from({ length: 20 }, newViewLabel));
+    expect(labels.size).toBe(20);
+    for (const label of labels) expect(validateStudentView(view(label), 0).ok).toBe(true);
+  });
+
+  it("only takes extra-window labels", () => {
+    for (const label of [MAIN_VIEW, "settings", "student-", "student-Hall", "student-../x"]) {
+      expect(validateStudentView(view(label), 2)).toEqual({
+        ok: false,
+        error: 'studentViews[2].label: expected "student-…"',
+      });
+    }
+  });
+
+  it("keeps the main window on the unsuffixed keys", () => {
+    expect(viewKey("settings", MAIN_VIEW)).toBe("settings");
+    expect(viewKey("settings", "student-hall")).toBe("settings:student-hall");
+  });
+});
+
+describe("readStudentViews", () => {
+  it("reopens the same windows under the same labels", () => {
+    const views = [view("student-hall", "Hall"), view("student-lab", "Lab")];
+    writeStudentViews(views);
+    expect(readStudentViews()).toEqual(views);
+    expect(allViews().map((v) => v.label)).toEqual([MAIN_VIEW, "student-hall", "student-lab"]);
+  });
+
+  it("drops broken entries and survives unreadable storage", () => {
+    localStorage.setItem("studentViews", JSON.stringify([view("student-hall"), view("main"), { label: "student-x" }]));
+    expect(readStudentViews()).toEqual([view("student-hall")]);
+    localStorage.setItem("studentViews", "{not json");
+    expect(readStudentViews()).toEqual([]);
+  });
+
+  it("keeps at most MAX_EXTRA_VIEWS", () => {
+    const views = Array.from({ length: MAX_EXTRA_VIEWS + 1 }, (_, i) => view(`student-${i}`));
+    writeStudentViews(views);
+    expect(readStudentViews()).toEqual(views.slice(0, MAX_EXTRA_VIEWS));
+    localStorage.setItem("studentViews", JSON.stringify(views));
+    expect(readStudentViews()).toHaveLength(MAX_EXTRA_VIEWS);
+  });
+});
+
+it("removes a view along with what was stored for it", () => {
+  const timer: PersistedTimer = {
+    mode: "countdown",
+    running: false,
+    phaseIndex: 0,
+    endsAt: 0,
+    remainingMs: 60_000,
+    startedAt: 0,
+    elapsedMs: 0,
+    deadlineAt: 0,
+  };
+  migrateStorage();
+  writeStudentViews([view("student-hall"), view("student-lab")]);
+  writeStoredSettings({ ...defaultSettings(), titleText: "MAIN" });
+  for (const label of [MAIN_VIEW, "student-hall", "student-lab"]) writeTimerState(timer, label);
+  writeStoredSettings({ ...defaultSettings(), titleText: "HALL" }, "student-hall");
+  writeStoredSettings({ ...defaultSettings(), titleText: "LAB" }, "student-lab");
+  writeScheduledRuns("student-hall", { start: 1 });
+
+  // What Settings does for its Remove button
+  writeStudentViews(readStudentViews().filter((v) => v.label !== "student-hall"));
+  removeStoredSettings("student-hall");
+  removeTimerState("student-hall");
+  removeScheduledRuns("student-hall");
+
+  expect(readStudentViews()).toEqual([view("student-lab")]);
+  expect(Object.keys(localStorage).filter((key) => key.endsWith(":student-hall"))).toEqual([]);
+  expect(readTimerState("student-hall")).toBeNull();
+  expect(readScheduledRuns("student-hall")).toEqual({});
+  expect(readStoredSettings("student-hall")).toEqual(defaultSettings());
+  expect(readStoredSettings("student-lab").titleText).toBe("LAB");
+  expect(readStoredSettings().titleText).toBe("MAIN");
+  expect(readTimerState()).toEqual(timer);
+});
@@ -0,0 +1,93 @@
+// src/studentViews.ts
+// The Student View windows. "main" always exists; the proctor can open extra
+// named windows (labels "student-…", covered by capabilities/default.json), each
+// with its own settings, mode and timer. The list lives in localStorage so the
+// main window can reopen the extra windows on the next launch.
+
+import { WebviewWindow } from "@tauri-apps/api/webviewWindow";
+import { isRecord, type ParseResult } from "./protocol";
+
+const STUDENT_VIEWS_KEY = "studentViews";
+
+export const MAIN_VIEW = "main";
+export const MAIN_VIEW_NAME = "Student View";
+export const MAX_EXTRA_VIEWS = 5;
+
+const LABEL_RE = /^student-[a-z0-9-]+$/;
+
+export type StudentView = {
+  // Tauri window label, also the command target
+  label: string;
+  name: string;
+};
+
+export function newViewLabel(): string {
+  return `student-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Per-window localStorage key; the main window keeps the original unsuffixed keys
+export function viewKey(base: string, view: string): string {
+  return view === MAIN_VIEW ? base : `${base}:${view}`;
+}
+
+export function validateStudentView(raw: unknown, index: number): ParseResult<StudentView> {
+  const where = `studentViews[${index}]`;
+  if (!isRecord(raw)) return { ok: false, error: `${where}: not an object` };
+  if (typeof raw.label !== "string" || !LABEL_RE.test(raw.label)) {
+    return { ok: false, error: `${where}.label: expected "student-…"` };
+  }
+  if (typeof raw.name !== "string") return { ok: false, error: `${where}.name: expected string` };
+  return { ok: true, value: { label: raw.label, name: raw.name } };
+}
+
+// The extra windows only; see allViews()
+export function readStudentViews(): StudentView[] {
+  const json = localStorage.getItem(STUDENT_VIEWS_KEY);
+  if (!json) return [];
+  try {
+    const raw: unknown = JSON.parse(json);
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .slice(0, MAX_EXTRA_VIEWS)
+      .map(validateStudentView)
+      .flatMap((v) => (v.ok ? [v.value] : []));
+  } catch {
+    return [];
+  }
+}
+
+export function writeStudentViews(views: StudentView[]) {
+  localStorage.setItem(STUDENT_VIEWS_KEY, JSON.stringify(views.slice(0, MAX_EXTRA_VIEWS)));
+}
+
+export function allViews(extras = readStudentViews()): StudentView[] {
+  return [{ label: MAIN_VIEW, name: MAIN_VIEW_NAME }, ...extras];
+}
+
+// Shows the window if it's already open. Same chrome as the main window in tauri.conf.json.
+export async function openStudentView(view: StudentView): Promise<void> {
+  const existing = await WebviewWindow.getByLabel(view.label);
+  if (existing) {
+    await existing.show();
+    return;
+  }
+
+  const win = new WebviewWindow(view.label, {
+    url: "/",
+    title: view.name,
+    width: 900,
+    height: 500,
+    resizable: true,
+    decorations: false,
+    acceptFirstMouse: true,
+  });
+  await new Promise<void>((resolve, reject) => {
+    void win.once("tauri://created", () => resolve());
+    void win.once("tauri://error", (e) => reject(e.payload));
+  });
+}
+
+export async function closeStudentView(label: string): Promise<void> {
+  const win = await WebviewWindow.getByLabel(label);
+  await win?.close();
+}
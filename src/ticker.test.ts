@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { TickerConfig } from "./ticker";
+
+// jsdom has no Web Animations; record what the strip asks for instead
+const animate = vi.fn(() => ({ cancel: vi.fn() }) as unknown as Animation);
+
+let updateTicker: typeof import("./ticker").updateTicker;
+let strip: HTMLElement;
+let track: HTMLElement;
+
+const config = (changes: Partial<TickerConfig> = {}): TickerConfig => ({
+  on: true,
+  speed: 80,
+  items: ["Phones away", "Bring a pencil"],
+  calm: false,
+  ...changes,
+});
+
+const shown = () => [...track.children].map((item) => item.textContent);
+
+beforeEach(async () => {
+  // The loop lives at module level: start each test without one
+  vi.resetModules();
+  ({ updateTicker } = await import("./ticker"));
+  Element.prototype.animate = animate;
+  animate.mockClear();
+  strip = document.createElement("div");
+  track = document.createElement("div");
+  strip.append(track);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("updateTicker", () => {
+  it("scrolls the items as one loop", () => {
+    expect(updateTicker(strip, track, config())).toBe(true);
+    expect(strip.hidden).toBe(false);
+    expect(shown()).toEqual(["Phones away", "Bring a pencil"]);
+    expect(animate).toHaveBeenCalledOnce();
+    expect(animate.mock.calls[0]).toEqual([expect.any(Array), expect.objectContaining({ iterations: Infinity })]);
+  });
+
+  it("trims items and drops blank ones", () => {
+    updateTicker(strip, track, config({ items: ["  Phones away ", "", "   "] }));
+    expect(shown()).toEqual(["Phones away"]);
+  });
+
+  it("hides the strip when off or empty", () => {
+    expect(updateTicker(strip, track, config({ on: false }))).toBe(false);
+    expect(strip.hidden).toBe(true);
+    expect(updateTicker(strip, track, config({ items: [" "] }))).toBe(false);
+    expect(strip.hidden).toBe(true);
+    expect(track.childElementCount).toBe(0);
+    expect(animate).not.toHaveBeenCalled();
+  });
+
+  it("takes turns in place under reduced motion", () => {
+    vi.useFakeTimers();
+    updateTicker(strip, track, config({ calm: true, items: ["one", "two", "three"] }));
+    expect(strip.classList.contains("is-calm")).toBe(true);
+    expect(animate).not.toHaveBeenCalled();
+    expect(track.textContent).toBe("one");
+    vi.advanceTimersByTime(4000);
+    expect(track.textContent).toBe("two");
+    vi.advanceTimersByTime(8000);
+    expect(track.textContent).toBe("one");
+  });
+
+  it("keeps an unchanged loop running unless told to restart", () => {
+    updateTicker(strip, track, config());
+    const first = animate.mock.results[0].value as Animation;
+    updateTicker(strip, track, config());
+    expect(animate).toHaveBeenCalledOnce();
+    expect(first.cancel).not.toHaveBeenCalled();
+
+    updateTicker(strip, track, config(), true);
+    expect(animate).toHaveBeenCalledTimes(2);
+    expect(first.cancel).toHaveBeenCalled();
+
+    updateTicker(strip, track, config({ speed: 120 }));
+    expect(animate).toHaveBeenCalledTimes(3);
+  });
+});
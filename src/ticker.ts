@@ -0,0 +1,79 @@
+// src/ticker.ts
+// Student View ticker strip: the active announcements scroll right to left as
+// one loop at a fixed speed. Under reduced motion they take turns in place.
+// The strip sits in its own reserved band (body.ticker-visible in styles.css),
+// so the message and timer layout only ever shrinks to make room for it.
+
+export type TickerConfig = {
+  on: boolean;
+  // pixels per second
+  speed: number;
+  // texts to show, paused items already left out
+  items: string[];
+  calm: boolean;
+};
+
+// How long each item stays up when the strip doesn't scroll
+const CALM_ITEM_MS = 4000;
+
+let scroll: Animation | null = null;
+let calmTimer: number | undefined;
+let shownKey = "";
+
+function stop() {
+  scroll?.cancel();
+  scroll = null;
+  window.clearInterval(calmTimer);
+}
+
+function startScroll(strip: HTMLElement, track: HTMLElement, items: string[], speed: number) {
+  track.replaceChildren(
+    ...items.map((text) => {
+      const item = document.createElement("span");
+      item.className = "ticker-item";
+      item.textContent = text;
+      return item;
+    })
+  );
+
+  // Enter from the right edge, leave past the left one, then go again
+  const from = strip.clientWidth;
+  const to = -track.scrollWidth;
+  scroll = track.animate([{ transform: `translateX(${from}px)` }, { transform: `translateX(${to}px)` }], {
+    duration: ((from - to) / speed) * 1000,
+    iterations: Infinity,
+  });
+}
+
+function startCalm(track: HTMLElement, items: string[]) {
+  let index = 0;
+  track.textContent = items[0];
+  if (items.length < 2) return;
+  calmTimer = window.setInterval(() => {
+    index = (index + 1) % items.length;
+    track.textContent = items[index];
+  }, CALM_ITEM_MS);
+}
+
+// Returns whether the strip is showing. Unchanged config keeps the loop
+// running where it is, unless `restart` (e.g. the window was resized).
+export function updateTicker(strip: HTMLElement, track: HTMLElement, config: TickerConfig, restart = false): boolean {
+  const items = config.items.map((t) => t.trim()).filter(Boolean);
+  const visible = config.on && items.length > 0;
+
+  const key = JSON.stringify({ ...config, items, visible });
+  if (key === shownKey && !restart) return visible;
+  shownKey = key;
+
+  stop();
+  strip.toggleAttribute("hidden", !visible);
+  strip.classList.toggle("is-calm", config.calm);
+  if (!visible) {
+    track.replaceChildren();
+    return false;
+  }
+
+  if (config.calm) startCalm(track, items);
+  else startScroll(strip, track, items, config.speed);
+  return true;
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import {
+  afterSkip,
+  catchUp,
+  countUpElapsedMs,
+  countUpStartedAt,
+  deadlineExpiredSince,
+  deadlineRemainingMs,
+  extendDeadline,
+  extendPhase,
+  nextPhase,
+  phaseDurationMs,
+  resolveDeadline,
+  type CountdownPosition,
+} from "./timerEngine";
+
+const MIN = 60_000;
+
+it("measures a phase in ms", () => {
+  expect(phaseDurationMs({ name: "Reading", minutes: 10, seconds: 30, titleText: "", subtitleText: "" })).toBe(
+    10.5 * MIN
+  );
+});
+
+describe("nextPhase", () => {
+  it("carries the overshoot into the next phase", () => {
+    expect(nextPhase([MIN, 5 * MIN], { phaseIndex: 0, remainingMs: -250 })).toEqual({
+      phaseIndex: 1,
+      remainingMs: 5 * MIN - 250,
+    });
+  });
+
+  it("runs straight through zero-length phases", () => {
+    const durations = [MIN, 0, 0, 2 * MIN];
+    const seen: CountdownPosition[] = [];
+    // The tick's loop in main.ts
+    let at: CountdownPosition | null = { phaseIndex: 0, remainingMs: -100 };
+    while (at && at.remainingMs <= 0) {
+      at = nextPhase(durations, at);
+      if (at) seen.push(at);
+    }
+    expect(seen).toEqual([
+      { phaseIndex: 1, remainingMs: -100 },
+      { phaseIndex: 2, remainingMs: -100 },
+      { phaseIndex: 3, remainingMs: 2 * MIN - 100 },
+    ]);
+  });
+
+  it("stops after the last phase, and a plain countdown has only one", () => {
+    expect(nextPhase([MIN, MIN], { phaseIndex: 1, remainingMs: -5 })).toBeNull();
+    expect(nextPhase([MIN], { phaseIndex: 0, remainingMs: 0 })).toBeNull();
+    expect(nextPhase([], { phaseIndex: 0, remainingMs: 0 })).toBeNull();
+  });
+});
+
+describe("afterSkip", () => {
+  it("starts the next phase at its full length", () => {
+    expect(afterSkip([MIN, 5 * MIN, 2 * MIN], 0)).toEqual({ phaseIndex: 1, remainingMs: 5 * MIN });
+  });
+
+  it("finishes when skipping past the last phase", () => {
+    expect(afterSkip([MIN, 5 * MIN], 1)).toBeNull();
+    expect(afterSkip([MIN], 0)).toBeNull();
+  });
+});
+
+it("extends a paused phase and never goes below zero", () => {
+  expect(extendPhase(30_000, MIN)).toBe(90_000);
+  expect(extendPhase(90_000, -MIN)).toBe(30_000);
+  expect(extendPhase(30_000, -MIN)).toBe(0);
+  expect(extendPhase(0, MIN)).toBe(MIN);
+});
+
+describe("catchUp", () => {
+  const durations = [10 * MIN, 0, 20 * MIN, 5 * MIN];
+  const saved = (running: boolean, phaseIndex: number, ms: number) => ({
+    running,
+    phaseIndex,
+    endsAt: running ? 1_000_000 + ms : 0,
+    remainingMs: running ? 0 : ms,
+  });
+
+  it("leaves a paused countdown where it was", () => {
+    expect(catchUp(durations, saved(false, 2, 3 * MIN), 9_999_999)).toEqual({
+      phaseIndex: 2,
+      remainingMs: 3 * MIN,
+      expired: false,
+    });
+    expect(catchUp(durations, saved(false, 3, 0), 9_999_999)).toEqual({
+      phaseIndex: 3,
+      remainingMs: 0,
+      expired: false,
+    });
+  });
+
+  it("follows the wall clock while running", () => {
+    expect(catchUp(durations, saved(true, 0, 4 * MIN), 1_000_000 + MIN)).toEqual({
+      phaseIndex: 0,
+      remainingMs: 3 * MIN,
+      expired: false,
+    });
+  });
+
+  it("moves past the phases that ran out while closed", () => {
+    // 2 minutes left of phase 0, closed for 7 minutes: through the empty phase into phase 2
+    expect(catchUp(durations, saved(true, 0, 2 * MIN), 1_000_000 + 7 * MIN)).toEqual({
+      phaseIndex: 2,
+      remainingMs: 15 * MIN,
+      expired: false,
+    });
+  });
+
+  it("stops at zero on the last phase once the whole schedule ran out, owing the end action", () => {
+    expect(catchUp(durations, saved(true, 0, 2 * MIN), 1_000_000 + 60 * MIN)).toEqual({
+      phaseIndex: 3,
+      remainingMs: 0,
+      expired: true,
+    });
+    expect(catchUp([10 * MIN], saved(true, 0, MIN), 1_000_000 + 2 * MIN)).toEqual({
+      phaseIndex: 0,
+      remainingMs: 0,
+      expired: true,
+    });
+  });
+});
+
+describe("resolveDeadline", () => {
+  const at = (h: number, m: number, day = 15) => new Date(2026, 5, day, h, m).getTime();
+
+  it("is today while today's time is at most 12 hours ago", () => {
+    expect(resolveDeadline("14:30", new Date(at(9, 0)))).toBe(at(14, 30));
+    expect(resolveDeadline("14:30", new Date(at(14, 45)))).toBe(at(14, 30));
+    expect(resolveDeadline("02:00", new Date(at(14, 0)))).toBe(at(2, 0));
+  });
+
+  it("rolls over to tomorrow just past the 12-hour boundary", () => {
+    expect(resolveDeadline("02:00", new Date(at(14, 1)))).toBe(at(2, 0, 16));
+    expect(resolveDeadline("08:00", new Date(at(23, 30)))).toBe(at(8, 0, 16));
+  });
+
+  it("gives 0 for a malformed time", () => {
+    for (const hhmm of ["", "24:00", "9:60", "noon"]) expect(resolveDeadline(hhmm, new Date(at(9, 0)))).toBe(0);
+  });
+});
+
+describe("deadlines", () => {
+  it("counts down to the deadline and stops at zero", () => {
+    expect(deadlineRemainingMs(10_000, 4_000)).toBe(6_000);
+    expect(deadlineRemainingMs(10_000, 12_000)).toBe(0);
+    expect(deadlineRemainingMs(0, 4_000)).toBe(0);
+  });
+
+  it("moves a set deadline, never into the past", () => {
+    expect(extendDeadline(10 * MIN, MIN, 0)).toBe(11 * MIN);
+    expect(extendDeadline(10 * MIN, -MIN, 0)).toBe(9 * MIN);
+    expect(extendDeadline(10 * MIN, -MIN, 9.5 * MIN)).toBe(9.5 * MIN);
+    expect(extendDeadline(0, MIN, 5 * MIN)).toBe(0);
+  });
+
+  it("owes the end action only for a deadline that passed while closed", () => {
+    expect(deadlineExpiredSince({ deadlineAt: 10_000, remainingMs: 3_000 }, 12_000)).toBe(true);
+    expect(deadlineExpiredSince({ deadlineAt: 10_000, remainingMs: 3_000 }, 9_000)).toBe(false);
+    // Already at zero when saved: it fired while the view was open
+    expect(deadlineExpiredSince({ deadlineAt: 10_000, remainingMs: 0 }, 12_000)).toBe(false);
+    expect(deadlineExpiredSince({ deadlineAt: 0, remainingMs: 3_000 }, 12_000)).toBe(false);
+  });
+});
+
+it("anchors the stopwatch so it reads the same after a pause or a reload", () => {
+  const startedAt = countUpStartedAt(90_000, 1_000_000);
+  expect(countUpElapsedMs(startedAt, 1_000_000)).toBe(90_000);
+  expect(countUpElapsedMs(startedAt, 1_030_000)).toBe(120_000);
+});
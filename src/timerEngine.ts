@@ -0,0 +1,98 @@
+// src/timerEngine.ts
+// The Student View's timer arithmetic, kept free of the DOM and of main.ts's
+// module state so it can be tested on its own. main.ts owns the interval,
+// the display and the side effects (flashes, alerts, reports).
+//
+// A countdown is a list of phase durations: one entry in countdown mode, one
+// per phase in schedule mode. remainingMs counts down the current phase and
+// goes negative when a tick lands past its end. Deadlines and the stopwatch
+// are plain epoch-ms anchors, recomputed against `now` on every tick.
+
+import { DEADLINE_RE, type TimerPhase } from "./protocol";
+import type { PersistedTimer } from "./timerState";
+
+export type CountdownPosition = {
+  phaseIndex: number;
+  remainingMs: number;
+};
+
+export function phaseDurationMs(phase: TimerPhase): number {
+  return (phase.minutes * 60 + phase.seconds) * 1000;
+}
+
+// Moves to the next phase, carrying any overshoot into it. null after the last phase.
+// A zero-length phase comes back with remainingMs <= 0, so callers loop until it's positive.
+export function nextPhase(durations: number[], at: CountdownPosition): CountdownPosition | null {
+  if (at.phaseIndex >= durations.length - 1) return null;
+  const phaseIndex = at.phaseIndex + 1;
+  return { phaseIndex, remainingMs: durations[phaseIndex] + Math.min(0, at.remainingMs) };
+}
+
+// Where a saved countdown stands `now`. A running one moves on past the phases that
+// ran out while no view was open, without replaying them one by one; `expired` if
+// the last one ran out too, so its end action is still owed.
+export function catchUp(
+  durations: number[],
+  saved: Pick<PersistedTimer, "running" | "phaseIndex" | "endsAt" | "remainingMs">,
+  now: number
+): CountdownPosition & { expired: boolean } {
+  let at: CountdownPosition = {
+    phaseIndex: saved.phaseIndex,
+    remainingMs: saved.running ? saved.endsAt - now : saved.remainingMs,
+  };
+  let next: CountdownPosition | null;
+  while (saved.running && at.remainingMs <= 0 && (next = nextPhase(durations, at))) at = next;
+  return {
+    phaseIndex: at.phaseIndex,
+    remainingMs: Math.max(0, at.remainingMs),
+    expired: saved.running && at.remainingMs <= 0,
+  };
+}
+
+// Where skipping the current phase lands: the next one at its full length, or null after the last
+export function afterSkip(durations: number[], phaseIndex: number): CountdownPosition | null {
+  return nextPhase(durations, { phaseIndex, remainingMs: 0 });
+}
+
+// +/- time on the current phase, running or paused; never below zero
+export function extendPhase(remainingMs: number, ms: number): number {
+  return Math.max(0, remainingMs + ms);
+}
+
+// "14:30" -> today at 14:30, or tomorrow if that was more than 12 hours ago. 0 if malformed.
+export function resolveDeadline(hhmm: string, now = new Date()): number {
+  if (!DEADLINE_RE.test(hhmm)) return 0;
+  const [hours, minutes] = hhmm.split(":").map(Number);
+
+  const at = new Date(now);
+  at.setHours(hours, minutes, 0, 0);
+  if (now.getTime() - at.getTime() > 12 * 60 * 60 * 1000) at.setDate(at.getDate() + 1);
+  return at.getTime();
+}
+
+export function deadlineRemainingMs(deadlineAt: number, now: number): number {
+  return deadlineAt > 0 ? Math.max(0, deadlineAt - now) : 0;
+}
+
+// A saved deadline that was still ahead when last saved but has passed since:
+// it ran out while no view was open, so its end action is still owed
+export function deadlineExpiredSince(
+  saved: Pick<PersistedTimer, "deadlineAt" | "remainingMs">,
+  now: number
+): boolean {
+  return saved.deadlineAt > 0 && saved.remainingMs > 0 && deadlineRemainingMs(saved.deadlineAt, now) === 0;
+}
+
+// +/- time on a set deadline; taking time off ends it now at the earliest
+export function extendDeadline(deadlineAt: number, ms: number, now: number): number {
+  return deadlineAt > 0 ? Math.max(now, deadlineAt + ms) : deadlineAt;
+}
+
+// Count-up: the start time that makes the stopwatch read elapsedMs now, and back
+export function countUpStartedAt(elapsedMs: number, now: number): number {
+  return now - elapsedMs;
+}
+
+export function countUpElapsedMs(startedAt: number, now: number): number {
+  return now - startedAt;
+}
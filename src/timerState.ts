@@ -0,0 +1,58 @@
+// src/timerState.ts
+// The Student View's timer, persisted as absolute timestamps rather than "ms left",
+// so a reloaded webview (or a restarted app) resumes the countdown where it really is.
+// Written by main.ts; the Settings window only reads it to rehydrate its buttons.
+// Each Student View window has its own, see viewKey().
+
+import { isTimerMode, type TimerMode } from "./protocol";
+import { MAIN_VIEW, viewKey } from "./studentViews";
+
+const TIMER_STATE_KEY = "timerState";
+
+export type PersistedTimer = {
+  mode: TimerMode;
+  running: boolean;
+  phaseIndex: number;
+  // countdown / schedule: epoch ms when the current countdown hits zero (running)
+  // or ms left (paused)
+  endsAt: number;
+  remainingMs: number;
+  // countup: epoch ms the stopwatch would read 00:00 (running) or ms counted (paused)
+  startedAt: number;
+  elapsedMs: number;
+  // deadline: resolved deadline, including any +1 min extensions
+  deadlineAt: number;
+};
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+export function readTimerState(view = MAIN_VIEW): PersistedTimer | null {
+  const json = localStorage.getItem(viewKey(TIMER_STATE_KEY, view));
+  if (!json) return null;
+
+  try {
+    const raw = JSON.parse(json) as Record<string, unknown> | null;
+    if (
+      !raw ||
+      !isTimerMode(raw.mode) ||
+      typeof raw.running !== "boolean" ||
+      !Number.isInteger(raw.phaseIndex) ||
+      !["endsAt", "remainingMs", "startedAt", "elapsedMs", "deadlineAt"].every((k) => isFiniteNumber(raw[k]))
+    ) {
+      return null;
+    }
+    return raw as PersistedTimer;
+  } catch {
+    return null;
+  }
+}
+
+export function writeTimerState(state: PersistedTimer, view = MAIN_VIEW) {
+  localStorage.setItem(viewKey(TIMER_STATE_KEY, view), JSON.stringify(state));
+}
+
+export function removeTimerState(view: string) {
+  localStorage.removeItem(viewKey(TIMER_STATE_KEY, view));
+}
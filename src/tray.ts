@@ -0,0 +1,54 @@
+// src/tray.ts
+// The main window's half of the tray menu (src-tauri/src/tray.rs). Rust sends the
+// plain commands itself; the quick message list, the status line and picking a
+// quick message need this webview's storage, so they come through here.
+
+import { invoke } from "@tauri-apps/api/core";
+import { listen, type UnlistenFn } from "@tauri-apps/api/event";
+import { plainText } from "./richText";
+import type { QuickMessage } from "./quickMessages";
+
+const OPEN_SETTINGS_ON_LAUNCH_KEY = "ui:openSettingsOnLaunch";
+
+export type TrayHandlers = {
+  onQuickMessage: (id: string) => void;
+  onToggleSettingsOnLaunch: () => void;
+};
+
+// Unset means yes: Settings has always opened at launch
+export function readOpenSettingsOnLaunch(): boolean {
+  return localStorage.getItem(OPEN_SETTINGS_ON_LAUNCH_KEY) !== "false";
+}
+
+export function writeOpenSettingsOnLaunch(open: boolean) {
+  localStorage.setItem(OPEN_SETTINGS_ON_LAUNCH_KEY, String(open));
+}
+
+// Both are re-sent often (storage changes, heartbeats); only real changes reach Rust
+let sentMenu = "";
+let sentStatus = "";
+
+export function syncTrayMenu(messages: QuickMessage[], openSettingsOnLaunch: boolean): Promise<void> {
+  const args = {
+    quickMessages: messages.map((m) => ({ id: m.id, label: m.label || plainText(m.subtitleText) })),
+    openSettingsOnLaunch,
+  };
+  const key = JSON.stringify(args);
+  if (key === sentMenu) return Promise.resolve();
+  sentMenu = key;
+  return invoke("set_tray_menu", args);
+}
+
+export function setTrayStatus(tooltip: string, title: string): Promise<void> {
+  const key = JSON.stringify([tooltip, title]);
+  if (key === sentStatus) return Promise.resolve();
+  sentStatus = key;
+  return invoke("set_tray_status", { tooltip, title });
+}
+
+export async function listenForTray(handlers: TrayHandlers): Promise<UnlistenFn[]> {
+  return Promise.all([
+    listen<string>("tray:quick-message", (e) => handlers.onQuickMessage(e.payload)),
+    listen("tray:settings-on-launch", () => handlers.onToggleSettingsOnLaunch()),
+  ]);
+}